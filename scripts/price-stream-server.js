@@ -0,0 +1,88 @@
+// Local stand-in for the price streaming service.
+// Replays random-walk ticker updates for whatever coins a client subscribes to.
+//
+//   npm run stream:dev
+//   VITE_PRICE_STREAM_URL=ws://localhost:8787 npm run dev
+
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PRICE_STREAM_PORT) || 8787;
+const TICK_INTERVAL_MS = 1000;
+const MAX_STEP = 0.002; // Largest relative price move per tick
+
+// Seed USD prices; unknown coins start at 1 and wander from there
+const seedPrices = {
+  bitcoin: 57832,
+  ethereum: 3105,
+  tether: 1,
+  binancecoin: 542,
+  solana: 141,
+  'usd-coin': 1,
+  ripple: 0.52,
+  dogecoin: 0.12,
+  cardano: 0.38,
+  godsdollar: 0.00000123
+};
+
+// Rough conversion so non-USD subscriptions get plausible numbers
+const usdRates = { usd: 1, eur: 0.92, gbp: 0.79, jpy: 149, btc: 1 / 57832, eth: 1 / 3105 };
+
+const state = new Map();
+
+const getState = (id) => {
+  if (!state.has(id)) {
+    const price = seedPrices[id] ?? 1;
+    state.set(id, { price, open: price, volume: price * 1e6 });
+  }
+  return state.get(id);
+};
+
+const step = (id) => {
+  const coin = getState(id);
+  coin.price *= 1 + (Math.random() * 2 - 1) * MAX_STEP;
+  coin.volume += coin.price * Math.random() * 100;
+  return coin;
+};
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (socket) => {
+  let ids = [];
+  let currency = 'usd';
+
+  socket.on('message', (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+
+    if (message.type === 'ping') {
+      socket.send(JSON.stringify({ type: 'pong' }));
+    } else if (message.type === 'subscribe') {
+      ids = Array.isArray(message.ids) ? message.ids : [];
+      currency = typeof message.currency === 'string' ? message.currency.toLowerCase() : 'usd';
+    }
+  });
+
+  const timer = setInterval(() => {
+    const rate = usdRates[currency] ?? 1;
+    for (const id of ids) {
+      const coin = step(id);
+      socket.send(JSON.stringify({
+        type: 'ticker',
+        id,
+        currency,
+        price: coin.price * rate,
+        change24h: ((coin.price - coin.open) / coin.open) * 100,
+        volume24h: coin.volume * rate,
+        timestamp: Date.now()
+      }));
+    }
+  }, TICK_INTERVAL_MS);
+
+  socket.on('close', () => clearInterval(timer));
+});
+
+console.log(`Price stream listening on ws://localhost:${PORT}`);
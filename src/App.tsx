@@ -4,7 +4,12 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import CoinPage from "./pages/CoinPage";
+import PortfolioPage from "./pages/PortfolioPage";
+import TokenPage from "./pages/TokenPage";
 import NotFound from "./pages/NotFound";
+import AlertMonitor from "./components/AlertMonitor";
+import CommandPalette from "./components/CommandPalette";
 
 const queryClient = new QueryClient();
 
@@ -13,9 +18,14 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <AlertMonitor />
       <BrowserRouter basename="/godsdollar">
+        <CommandPalette />
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/coin/:id" element={<CoinPage />} />
+          <Route path="/portfolio" element={<PortfolioPage />} />
+          <Route path="/token/:platform/:address" element={<TokenPage />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import { getAlertCurrencies, getWatchedCoinIds, onAlertFired, subscribeToAlerts, type AlertFiring } from '@/services/priceAlerts';
+import { useCoinsByIds } from '@/hooks/use-market-data';
+
+// Polls the quotes of one currency's alerted coins; each refresh runs the alerts in the service layer
+const AlertQuotes = ({ coinIds, currency }: { coinIds: string[]; currency: string }) => {
+  useCoinsByIds(coinIds, currency);
+  return null;
+};
+
+// Mirror a firing to the OS when the user has allowed notifications
+const showBrowserNotification = (firing: AlertFiring) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification(`${firing.symbol.toUpperCase()} price alert`, {
+      body: firing.message,
+      tag: firing.alertId,
+    });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('Could not show browser notification', error);
+  }
+};
+
+const watchedByCurrency = () =>
+  getAlertCurrencies().map(currency => ({ currency, coinIds: getWatchedCoinIds(currency) }));
+
+// Keeps alerted coins refreshing on every page and announces alerts as they fire
+const AlertMonitor = () => {
+  const [watched, setWatched] = useState(watchedByCurrency);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToAlerts(() => setWatched(watchedByCurrency()));
+    setWatched(watchedByCurrency());
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => onAlertFired(firing => {
+    toast(`${firing.symbol.toUpperCase()} price alert`, { description: firing.message });
+    showBrowserNotification(firing);
+  }), []);
+
+  return (
+    <>
+      {watched.map(({ currency, coinIds }) => (
+        <AlertQuotes key={currency} currency={currency} coinIds={coinIds} />
+      ))}
+    </>
+  );
+};
+
+export default AlertMonitor;
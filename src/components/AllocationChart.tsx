@@ -0,0 +1,107 @@
+import React from 'react';
+import { Cell, Pie, PieChart } from 'recharts';
+import { cn } from '@/lib/utils';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { formatCurrencyCompact } from '@/services/cryptoService';
+import type { Holding } from '@/services/portfolio';
+
+// Slice colours, reused in order when there are more holdings than colours
+const SLICE_COLORS = ['#8b5cf6', '#3b82f6', '#22c55e', '#f59e0b', '#ec4899', '#14b8a6', '#ef4444', '#a3a3a3'];
+
+// Holdings beyond this many are grouped into one "Other" slice
+const MAX_SLICES = 7;
+
+interface AllocationChartProps {
+  holdings: Holding[];
+  currency: string;
+  className?: string;
+}
+
+interface Slice {
+  key: string;
+  label: string;
+  value: number;
+  allocation: number;
+  fill: string;
+}
+
+const toSlices = (holdings: Holding[]): Slice[] => {
+  const held = holdings.filter(holding => holding.value > 0);
+  const shown = held.length > MAX_SLICES ? held.slice(0, MAX_SLICES - 1) : held;
+  const rest = held.slice(shown.length);
+
+  const slices = shown.map((holding, index) => ({
+    key: holding.coinId,
+    label: holding.symbol.toUpperCase(),
+    value: holding.value,
+    allocation: holding.allocation,
+    fill: SLICE_COLORS[index % SLICE_COLORS.length],
+  }));
+
+  if (rest.length > 0) {
+    slices.push({
+      key: 'other',
+      label: 'Other',
+      value: rest.reduce((sum, holding) => sum + holding.value, 0),
+      allocation: rest.reduce((sum, holding) => sum + holding.allocation, 0),
+      fill: SLICE_COLORS[SLICE_COLORS.length - 1],
+    });
+  }
+  return slices;
+};
+
+// Donut chart of how the portfolio value is split across holdings
+const AllocationChart = ({ holdings, currency, className }: AllocationChartProps) => {
+  const slices = toSlices(holdings);
+  const chartConfig: ChartConfig = Object.fromEntries(
+    slices.map(slice => [slice.key, { label: slice.label, color: slice.fill }])
+  );
+
+  if (slices.length === 0) {
+    return (
+      <div className={cn('flex items-center justify-center h-48 text-gray-400 text-sm', className)}>
+        No holdings to show yet
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('w-full', className)}>
+      <ChartContainer config={chartConfig} className="aspect-square max-h-[240px] mx-auto">
+        <PieChart>
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                nameKey="key"
+                hideLabel
+                formatter={(value, _name, item) => (
+                  <div className="flex w-full justify-between gap-3">
+                    <span>{item.payload.label}</span>
+                    <span className="font-mono">
+                      {formatCurrencyCompact(Number(value), currency)} ({item.payload.allocation.toFixed(1)}%)
+                    </span>
+                  </div>
+                )}
+              />
+            }
+          />
+          <Pie data={slices} dataKey="value" nameKey="key" innerRadius="55%" strokeWidth={2} stroke="#181632">
+            {slices.map(slice => (
+              <Cell key={slice.key} fill={slice.fill} />
+            ))}
+          </Pie>
+        </PieChart>
+      </ChartContainer>
+      <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 mt-2 text-xs">
+        {slices.map(slice => (
+          <div key={slice.key} className="flex items-center gap-1.5 text-gray-300">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: slice.fill }}></span>
+            {slice.label} {slice.allocation.toFixed(1)}%
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AllocationChart;
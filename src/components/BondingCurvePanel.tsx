@@ -0,0 +1,75 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { formatCompactNumber, formatPrice } from '@/services/cryptoService';
+import { GODD_MINT } from '@/services/solanaRpc';
+import { useBondingCurve, useCoin } from '@/hooks/use-market-data';
+import { useCurrency } from '@/hooks/use-currency';
+import { Progress } from '@/components/ui/progress';
+
+interface BondingCurvePanelProps {
+  mint?: string;
+  compact?: boolean; // Smaller text for the floating desktop widget
+  className?: string;
+}
+
+const formatSol = (value: number) => `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} SOL`;
+
+// pump.fun launch progress of the GODD mint, decoded from its bonding curve account
+const BondingCurvePanel = ({ mint = GODD_MINT, compact, className }: BondingCurvePanelProps) => {
+  const [currency] = useCurrency();
+  const { data: curve, isPending, isError } = useBondingCurve(mint);
+  const { data: sol } = useCoin(curve?.priceSol != null ? 'solana' : null, currency);
+
+  const rowClassName = cn(
+    'flex justify-between items-center gap-3',
+    compact ? 'text-[10px] md:text-xs my-1' : 'text-sm my-1.5'
+  );
+
+  if (isPending) {
+    return <div className={cn('h-16 rounded bg-gray-700/30 animate-pulse', className)}></div>;
+  }
+  // Tokens that didn't launch on pump.fun have no curve to show
+  if (isError || !curve) return null;
+
+  return (
+    <div className={cn('text-left', className)}>
+      <div className={rowClassName}>
+        <span className="text-gray-300">Bonding curve</span>
+        {curve.complete ? (
+          <span className="text-green-400 font-medium">Graduated to AMM pool</span>
+        ) : (
+          <span className="text-white font-medium">{curve.progress.toFixed(1)}%</span>
+        )}
+      </div>
+      <Progress value={curve.progress} className="h-1.5 bg-blue-900/40 mb-2" />
+
+      {!curve.complete && (
+        <>
+          <div className={rowClassName}>
+            <span className="text-gray-300">Virtual reserves</span>
+            <span className="text-white font-medium">
+              {formatSol(curve.virtualSolReserves)} · {formatCompactNumber(curve.virtualTokenReserves)}
+            </span>
+          </div>
+          <div className={rowClassName}>
+            <span className="text-gray-300">Real reserves</span>
+            <span className="text-white font-medium">
+              {formatSol(curve.realSolReserves)} · {formatCompactNumber(curve.realTokenReserves)}
+            </span>
+          </div>
+          {curve.priceSol !== null && (
+            <div className={rowClassName}>
+              <span className="text-gray-300">Curve price</span>
+              <span className="text-white font-medium text-right">
+                {curve.priceSol.toPrecision(3)} SOL
+                {sol && <span className="block text-gray-400">{formatPrice(curve.priceSol * sol.current_price, currency)}</span>}
+              </span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BondingCurvePanel;
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Bar, BarChart, Cell, ComposedChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { cn } from '@/lib/utils';
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart';
+import {
+  formatCurrencyCompact,
+  formatPrice,
+  type MarketChartDays,
+  type OhlcCandle
+} from '@/services/cryptoService';
+import { useOhlcCandles } from '@/hooks/use-market-data';
+
+const chartConfig = {
+  up: {
+    label: 'Up',
+    color: '#4ade80',
+  },
+  down: {
+    label: 'Down',
+    color: '#f87171',
+  },
+  volume: {
+    label: 'Volume',
+    color: '#8b5cf6',
+  },
+} satisfies ChartConfig;
+
+interface CandlestickChartProps {
+  coinId: string;
+  days: MarketChartDays;
+  currency?: string;
+  className?: string;
+}
+
+// Props recharts passes to a custom Bar shape
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: OhlcCandle;
+}
+
+// Draws the wick across the low-high range and the body between open and close
+const CandleShape = ({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) => {
+  if (!payload) return null;
+
+  const { open, high, low, close } = payload;
+  const isUp = close >= open;
+  const color = isUp ? 'var(--color-up)' : 'var(--color-down)';
+  const pixelsPerUnit = high > low ? height / (high - low) : 0;
+  const bodyTop = y + (high - Math.max(open, close)) * pixelsPerUnit;
+  const bodyHeight = Math.max(1, Math.abs(open - close) * pixelsPerUnit);
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+// Vertical half of the crosshair, centred on the hovered candle
+const CrosshairCursor = ({ x = 0, y = 0, width = 0, height = 0 }: CandleShapeProps) => (
+  <line
+    x1={x + width / 2}
+    x2={x + width / 2}
+    y1={y}
+    y2={y + height}
+    stroke="#94a3b8"
+    strokeDasharray="3 3"
+    strokeWidth={1}
+  />
+);
+
+interface CandleTooltipProps {
+  active?: boolean;
+  payload?: { payload: OhlcCandle }[];
+  currency: string;
+}
+
+const CandleTooltip = ({ active, payload, currency }: CandleTooltipProps) => {
+  if (!active || !payload?.length) return null;
+
+  const candle = payload[0].payload;
+  const rows = [
+    ['Open', formatPrice(candle.open, currency)],
+    ['High', formatPrice(candle.high, currency)],
+    ['Low', formatPrice(candle.low, currency)],
+    ['Close', formatPrice(candle.close, currency)],
+    ['Volume', formatCurrencyCompact(candle.volume, currency)],
+  ];
+
+  return (
+    <div className="grid min-w-[8rem] gap-1 rounded-lg border border-blue-900/50 bg-[#181632] px-2.5 py-1.5 text-xs text-white shadow-xl">
+      <div className="font-medium">{new Date(candle.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</div>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-3">
+          <span className="text-gray-400">{label}</span>
+          <span className="font-mono tabular-nums">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const CandlestickChart = ({ coinId, days, currency = 'usd', className }: CandlestickChartProps) => {
+  const { data: candles = [], isPending } = useOhlcCandles(coinId, currency, days);
+  const [hovered, setHovered] = useState<OhlcCandle | null>(null);
+
+  // Keep the hovered candle so the horizontal half of the crosshair can follow its close
+  const handleMouseMove = (state: { activePayload?: { payload: OhlcCandle }[] }) => {
+    setHovered(state?.activePayload?.[0]?.payload ?? null);
+  };
+
+  if (isPending) {
+    return <div className={cn('w-full h-36 rounded bg-gray-700/30 animate-pulse', className)}></div>;
+  }
+
+  if (candles.length === 0) {
+    return (
+      <div className={cn('w-full h-36 rounded bg-gray-700/30 flex items-center justify-center', className)}>
+        <span className="text-xs text-gray-400">No candle data available</span>
+      </div>
+    );
+  }
+
+  const syncId = `ohlc-${coinId}`;
+
+  return (
+    <div className={cn('w-full', className)}>
+      <ChartContainer config={chartConfig} className="aspect-auto h-28 w-full">
+        <ComposedChart
+          data={candles}
+          syncId={syncId}
+          margin={{ top: 4, right: 0, bottom: 0, left: 0 }}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHovered(null)}
+        >
+          <XAxis dataKey="timestamp" hide />
+          <YAxis domain={['dataMin', 'dataMax']} hide />
+          <ChartTooltip cursor={<CrosshairCursor />} content={<CandleTooltip currency={currency} />} />
+          {hovered && (
+            <ReferenceLine y={hovered.close} stroke="#94a3b8" strokeDasharray="3 3" />
+          )}
+          <Bar
+            dataKey={(candle: OhlcCandle) => [candle.low, candle.high]}
+            shape={<CandleShape />}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ChartContainer>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-10 w-full">
+        <BarChart data={candles} syncId={syncId} margin={{ top: 2, right: 0, bottom: 0, left: 0 }}>
+          <XAxis dataKey="timestamp" hide />
+          <YAxis hide />
+          <ChartTooltip cursor={<CrosshairCursor />} content={() => null} />
+          <Bar dataKey="volume" isAnimationActive={false}>
+            {candles.map(candle => (
+              <Cell
+                key={candle.timestamp}
+                fill={candle.close >= candle.open ? 'var(--color-up)' : 'var(--color-down)'}
+                fillOpacity={0.5}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+export default CandlestickChart;
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  formatCompactNumber,
+  formatCurrencyCompact,
+  formatDate,
+  formatPrice,
+  formatPriceChange,
+  type CoinDetail
+} from '@/services/cryptoService';
+import { useCoinDetail } from '@/hooks/use-market-data';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+
+interface CoinDetailsPanelProps {
+  coinId: string;
+  currency: string;
+  className?: string;
+}
+
+const changeClassName = (change: number | null) =>
+  change === null ? 'text-gray-500' : change >= 0 ? 'text-green-400' : 'text-red-400';
+
+// Shorten a contract address to its first and last characters
+const shortAddress = (address: string) =>
+  address.length > 14 ? `${address.slice(0, 6)}…${address.slice(-6)}` : address;
+
+const linkLabel = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="flex justify-between items-center gap-2 py-0.5">
+    <span className="text-gray-400">{label}</span>
+    <span className="text-white text-right">{children}</span>
+  </div>
+);
+
+const SectionTitle = ({ children }: { children: React.ReactNode }) => (
+  <div className="text-blue-300 mt-3 mb-1">{children}</div>
+);
+
+const ContractRow = ({ platform, address }: { platform: string; address: string }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = () => {
+    navigator.clipboard?.writeText(address).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    });
+  };
+
+  return (
+    <div className="flex justify-between items-center gap-2 py-0.5">
+      <span className="text-gray-400 capitalize">{platform.replace(/-/g, ' ')}</span>
+      <button
+        onClick={copy}
+        title={address}
+        className="font-mono text-blue-200 hover:text-white"
+      >
+        {copied ? 'Copied' : shortAddress(address)}
+      </button>
+    </div>
+  );
+};
+
+const DetailsBody = ({ coin, currency }: { coin: CoinDetail; currency: string }) => {
+  const symbol = coin.symbol.toUpperCase();
+  const supply = (value: number | null) => value === null ? '—' : `${formatCompactNumber(value)} ${symbol}`;
+  const changes: [string, number | null][] = [
+    ['24h', coin.price_change_percentage_24h],
+    ['7d', coin.price_change_percentage_7d],
+    ['30d', coin.price_change_percentage_30d],
+    ['1y', coin.price_change_percentage_1y],
+  ];
+  const community = [
+    ...coin.links.homepage,
+    ...coin.links.blockchain_site.slice(0, 2),
+    coin.links.twitter,
+    coin.links.reddit,
+    coin.links.telegram,
+    ...coin.links.chat,
+    ...coin.links.repos.slice(0, 1),
+  ].filter((url): url is string => !!url);
+
+  return (
+    <div className="text-xs">
+      <SectionTitle>Performance</SectionTitle>
+      <div className="grid grid-cols-4 gap-1 text-center">
+        {changes.map(([label, change]) => (
+          <div key={label} className="bg-[#131136] rounded py-1">
+            <div className="text-gray-400">{label}</div>
+            <div className={changeClassName(change)}>{change === null ? '—' : formatPriceChange(change)}</div>
+          </div>
+        ))}
+      </div>
+
+      <SectionTitle>Supply</SectionTitle>
+      <Row label="Circulating">{supply(coin.circulating_supply)}</Row>
+      <Row label="Total">{supply(coin.total_supply)}</Row>
+      <Row label="Max">{coin.max_supply === null ? '∞' : supply(coin.max_supply)}</Row>
+      {coin.fully_diluted_valuation !== null && (
+        <Row label="Fully diluted">{formatCurrencyCompact(coin.fully_diluted_valuation, currency)}</Row>
+      )}
+
+      <SectionTitle>All-time high / low</SectionTitle>
+      <Row label={`ATH (${formatDate(coin.ath_date)})`}>{coin.ath === null ? '—' : formatPrice(coin.ath, currency)}</Row>
+      <Row label={`ATL (${formatDate(coin.atl_date)})`}>{coin.atl === null ? '—' : formatPrice(coin.atl, currency)}</Row>
+
+      {coin.categories.length > 0 && (
+        <>
+          <SectionTitle>Categories</SectionTitle>
+          <div className="flex flex-wrap gap-1">
+            {coin.categories.map(category => (
+              <span key={category} className="bg-violet-600/20 text-violet-200 rounded px-1.5 py-0.5">{category}</span>
+            ))}
+          </div>
+        </>
+      )}
+
+      {coin.platforms.length > 0 && (
+        <>
+          <SectionTitle>Contracts</SectionTitle>
+          {coin.platforms.map(({ platform, contract_address }) => (
+            <ContractRow key={platform} platform={platform} address={contract_address} />
+          ))}
+        </>
+      )}
+
+      {community.length > 0 && (
+        <>
+          <SectionTitle>Links</SectionTitle>
+          <div className="flex flex-wrap gap-1">
+            {community.map(url => (
+              <a
+                key={url}
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="bg-[#131136] border border-blue-900/40 rounded px-1.5 py-0.5 text-blue-300 hover:text-white"
+              >
+                {linkLabel(url)}
+              </a>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Expandable section of the Coin Details widget; the full profile is only fetched once it is opened
+const CoinDetailsPanel = ({ coinId, currency, className }: CoinDetailsPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const { data: coin, isPending } = useCoinDetail(coinId, currency, { enabled: open });
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className={cn('mt-3', className)}>
+      <CollapsibleTrigger className="flex w-full items-center justify-between text-sm text-blue-300 hover:text-white">
+        {open ? 'Hide details' : 'More details'}
+        <ChevronDown className={cn('h-4 w-4 transition-transform', open && 'rotate-180')} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="max-h-[320px] overflow-y-auto pr-1">
+        {isPending ? (
+          <div className="space-y-2 mt-3">
+            <div className="h-10 rounded bg-gray-700/30 animate-pulse"></div>
+            <div className="h-20 rounded bg-gray-700/30 animate-pulse"></div>
+          </div>
+        ) : coin ? (
+          <DetailsBody coin={coin} currency={currency} />
+        ) : (
+          <div className="text-xs text-gray-400 mt-3">Details are unavailable right now.</div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default CoinDetailsPanel;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPrice, formatPriceChange, type CoinData } from '@/services/cryptoService';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import CoinLogo from './CoinLogo';
+
+interface CoinListProps {
+  coins: CoinData[];
+  currency: string;
+  selectedCoinId?: string;
+  onSelect: (coin: CoinData) => void;
+  isLoading?: boolean;
+  emptyMessage?: string;
+  compact?: boolean; // Smaller type for the floating desktop widget
+}
+
+// Market Overview rows; each coin can be starred to add it to the watchlist
+const CoinList = ({
+  coins,
+  currency,
+  selectedCoinId,
+  onSelect,
+  isLoading = false,
+  emptyMessage = 'No results found',
+  compact = false
+}: CoinListProps) => {
+  const { isWatched, toggle } = useWatchlist();
+  const textSize = compact ? 'text-xs md:text-sm' : 'text-sm';
+
+  if (isLoading) {
+    return (
+      <div className={cn('animate-pulse px-1', compact ? 'space-y-2 md:space-y-3' : 'space-y-3')}>
+        {[0, 1, 2, 3].map(row => (
+          <div key={row} className={cn('bg-[#131136] w-full', compact ? 'h-6 md:h-8' : 'h-8')}></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (coins.length === 0) {
+    return (
+      <div className={cn('flex items-center justify-center text-gray-400 text-center px-4', textSize, compact ? 'h-24 md:h-32' : 'h-32')}>
+        {emptyMessage}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {coins.map(coin => {
+        const watched = isWatched(coin.id);
+
+        return (
+          <div
+            key={coin.id}
+            onClick={() => onSelect(coin)}
+            className={cn(
+              'flex items-center justify-between px-1 cursor-pointer',
+              compact ? 'py-1.5 md:py-2' : 'py-2',
+              selectedCoinId === coin.id && 'bg-[#131136]/70'
+            )}
+          >
+            <div className="flex items-center">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggle(coin.id);
+                }}
+                aria-label={watched ? `Remove ${coin.name} from watchlist` : `Add ${coin.name} to watchlist`}
+                className="mr-1.5 text-gray-500 hover:text-yellow-400"
+              >
+                <Star className={cn(compact ? 'w-3 h-3 md:w-3.5 md:h-3.5' : 'w-3.5 h-3.5', watched && 'fill-yellow-400 text-yellow-400')} />
+              </button>
+              <div
+                className={cn(
+                  'mr-2 bg-gray-700/30 rounded-full overflow-hidden flex items-center justify-center',
+                  compact ? 'w-5 h-5 md:w-6 md:h-6' : 'w-6 h-6',
+                  textSize
+                )}
+              >
+                <CoinLogo
+                  coinId={coin.id}
+                  src={coin.image}
+                  alt={coin.name}
+                  className={cn('object-contain', compact ? 'w-4 h-4 md:w-5 md:h-5' : 'w-5 h-5')}
+                  onError={(e) => {
+                    (e.target as HTMLImageElement).style.display = 'none';
+                    const parent = (e.target as HTMLImageElement).parentElement;
+                    if (parent) {
+                      parent.innerHTML = `<span class="text-white font-bold">${coin.symbol.charAt(0).toUpperCase()}</span>`;
+                    }
+                  }}
+                />
+              </div>
+              <span className={cn('text-white font-medium', textSize)}>{coin.symbol.toUpperCase()}</span>
+            </div>
+            <div className="flex items-center">
+              <span className={cn('text-white', textSize, compact ? 'mr-2 md:mr-3' : 'mr-3')}>
+                {formatPrice(coin.current_price, currency)}
+              </span>
+              <span className={cn(textSize, coin.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400')}>
+                {formatPriceChange(coin.price_change_percentage_24h)}
+              </span>
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default CoinList;
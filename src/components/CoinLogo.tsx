@@ -0,0 +1,19 @@
+import React from 'react';
+import { getSolanaTokenMint } from '@/services/cryptoService';
+import { useTokenMetadata } from '@/hooks/use-market-data';
+
+interface CoinLogoProps extends React.ImgHTMLAttributes<HTMLImageElement> {
+  coinId: string;
+}
+
+// Coin image that switches to a Solana token's on-chain logo once its Metaplex metadata resolves
+const CoinLogo = ({ coinId, src, alt = '', ...props }: CoinLogoProps) => {
+  const { data: metadata } = useTokenMetadata(getSolanaTokenMint(coinId));
+  const image = metadata?.image || src;
+
+  if (!image) return null;
+  // Keyed on the source so an onError that hid the old image doesn't carry over to the new one
+  return <img key={image} src={image} alt={alt} {...props} />;
+};
+
+export default CoinLogo;
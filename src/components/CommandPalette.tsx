@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BarChart3, Coins, History, Wallet } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  currencies,
+  formatPrice,
+  formatPriceChange,
+  getCryptoImageUrl,
+  type CoinData,
+  type SearchResultItem
+} from '@/services/cryptoService';
+import { useCoinSearch, useCoinsByIds } from '@/hooks/use-market-data';
+import { useCommandPalette } from '@/hooks/use-command-palette';
+import { useCurrency } from '@/hooks/use-currency';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useRecentSearches } from '@/hooks/use-recent-searches';
+import CoinLogo from './CoinLogo';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut
+} from '@/components/ui/command';
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Search hits listed, all priced by one batched markets request
+const MAX_COIN_RESULTS = 8;
+
+const PAGES = [
+  { path: '/', label: 'Market overview', icon: BarChart3 },
+  { path: '/portfolio', label: 'Portfolio', icon: Wallet },
+];
+
+const itemClassName = 'gap-2 text-white data-[selected=true]:bg-[#131136] data-[selected=true]:text-white';
+
+const matches = (query: string, ...fields: string[]) => {
+  const needle = query.trim().toLowerCase();
+  return needle === '' || fields.some(field => field.toLowerCase().includes(needle));
+};
+
+interface CoinItemProps {
+  item: SearchResultItem;
+  quote?: CoinData;
+  currency: string;
+  onSelect: (item: SearchResultItem) => void;
+}
+
+const CoinItem = ({ item, quote, currency, onSelect }: CoinItemProps) => (
+  <CommandItem value={`coin:${item.id}`} onSelect={() => onSelect(item)} className={itemClassName}>
+    <CoinLogo coinId={item.id} src={item.thumb || getCryptoImageUrl(item.id)} className="w-5 h-5 rounded-full" />
+    <span className="truncate">{item.name}</span>
+    <span className="text-gray-400 text-xs">{item.symbol.toUpperCase()}</span>
+    {quote ? (
+      <span className="ml-auto text-right text-xs">
+        {formatPrice(quote.current_price, currency)}
+        <span className={cn('ml-2', quote.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400')}>
+          {formatPriceChange(quote.price_change_percentage_24h)}
+        </span>
+      </span>
+    ) : item.market_cap_rank ? (
+      <CommandShortcut className="tracking-normal">#{item.market_cap_rank}</CommandShortcut>
+    ) : null}
+  </CommandItem>
+);
+
+// ⌘K / Ctrl+K palette for jumping to coins, switching currency and moving between pages
+const CommandPalette = () => {
+  const navigate = useNavigate();
+  const { open, setOpen, toggle } = useCommandPalette();
+  const [currency, setCurrency] = useCurrency();
+  const { recent, add: addRecent } = useRecentSearches();
+  const [query, setQuery] = useState('');
+  const debouncedQuery = useDebouncedValue(query, SEARCH_DEBOUNCE_MS);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        toggle();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [toggle]);
+
+  const searchQuery = useCoinSearch(open ? debouncedQuery : '');
+  const coinResults = query.trim() === '' ? recent : (searchQuery.data ?? []).slice(0, MAX_COIN_RESULTS);
+
+  // One markets call prices every listed coin; tokens found only on chain have no market data
+  const listedIds = coinResults.filter(item => !item.contract || item.contract.listed).map(item => item.id);
+  const quotesQuery = useCoinsByIds(listedIds, currency, { enabled: open });
+  const quotes = new Map((quotesQuery.data ?? []).map(coin => [coin.id, coin]));
+
+  // Start from a blank query however the palette was closed
+  useEffect(() => {
+    if (!open) setQuery('');
+  }, [open]);
+
+  const handleOpenChange = (nextOpen: boolean) => setOpen(nextOpen);
+
+  // Tokens found only on chain have no coin page; their address page shows what the chain reports
+  const selectCoin = (item: SearchResultItem) => {
+    addRecent(item);
+    handleOpenChange(false);
+    navigate(item.contract && !item.contract.listed
+      ? `/token/${item.contract.platform}/${item.contract.address}`
+      : `/coin/${item.id}`);
+  };
+
+  const selectCurrency = (code: string) => {
+    setCurrency(code);
+    handleOpenChange(false);
+  };
+
+  const selectPage = (path: string) => {
+    handleOpenChange(false);
+    navigate(path);
+  };
+
+  const isTyping = query.trim() !== '' && (query !== debouncedQuery || searchQuery.isFetching);
+  const matchingPages = PAGES.filter(page => matches(query, page.label));
+  const matchingCurrencies = Object.entries(currencies).filter(([code, option]) => matches(query, code, option.name));
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={handleOpenChange}
+      className="bg-[#181632] border-blue-900/40 text-white"
+      commandProps={{ shouldFilter: false, className: 'bg-transparent text-white' }}
+    >
+      <CommandInput
+        value={query}
+        onValueChange={setQuery}
+        placeholder="Search coins, token addresses, currencies and pages..."
+        className="placeholder:text-gray-500"
+      />
+      <CommandList>
+        <CommandEmpty className="py-6 text-center text-sm text-gray-400">
+          {isTyping ? 'Searching...' : 'No results found.'}
+        </CommandEmpty>
+
+        {coinResults.length > 0 && (
+          <CommandGroup heading={query.trim() === '' ? 'Recent' : 'Coins'} className="text-white">
+            {coinResults.map(item => (
+              <CoinItem key={item.id} item={item} quote={quotes.get(item.id)} currency={currency} onSelect={selectCoin} />
+            ))}
+          </CommandGroup>
+        )}
+
+        {matchingPages.length > 0 && (
+          <CommandGroup heading="Pages" className="text-white">
+            {matchingPages.map(page => (
+              <CommandItem key={page.path} value={`page:${page.path}`} onSelect={() => selectPage(page.path)} className={itemClassName}>
+                <page.icon className="text-gray-400" />
+                {page.label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {matchingCurrencies.length > 0 && (
+          <CommandGroup heading="Currency" className="text-white">
+            {matchingCurrencies.map(([code, option]) => (
+              <CommandItem key={code} value={`currency:${code}`} onSelect={() => selectCurrency(code)} className={itemClassName}>
+                <Coins className="text-gray-400" />
+                {option.name}
+                <CommandShortcut className={cn('tracking-normal', code === currency && 'text-violet-300')}>
+                  {option.symbol} {code.toUpperCase()}
+                </CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {query.trim() === '' && recent.length === 0 && (
+          <div className="flex items-center gap-2 px-4 py-3 text-xs text-gray-500">
+            <History className="w-4 h-4" /> Coins you open from search show up here
+          </div>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
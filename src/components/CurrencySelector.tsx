@@ -0,0 +1,34 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { currencies } from '@/services/cryptoService';
+
+interface CurrencySelectorProps {
+  value: string;
+  onChange: (currency: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Compact quote currency picker driven by the currencies table
+const CurrencySelector = ({ value, onChange, disabled, className }: CurrencySelectorProps) => {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      aria-label="Quote currency"
+      className={cn(
+        "bg-[#131136] text-white border border-blue-900/40 rounded py-0.5 px-1 text-xs focus:outline-none cursor-pointer",
+        className
+      )}
+    >
+      {Object.entries(currencies).map(([code, option]) => (
+        <option key={code} value={code} title={option.name}>
+          {option.symbol} {code.toUpperCase()}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default CurrencySelector;
@@ -1,124 +1,134 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Link, useNavigate } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
-  fetchTopCoins, 
-  fetchTrendingCoins,
-  fetchCoinData,
-  searchCryptocurrencies,
   formatPrice, 
   formatPriceChange,
-  formatCompactNumber,
+  formatCurrencyCompact,
   openMoonPayWidget,
   getCryptoImageUrl,
-  type CoinData,
-  type TrendingCoin
+  type CoinData
 } from '@/services/cryptoService';
+import type { PriceTick } from '@/services/priceStream';
+import { usePriceStream } from '@/hooks/use-price-stream';
+import { useCurrency } from '@/hooks/use-currency';
+import { Search } from 'lucide-react';
+import { applyPriceTicks, useCoin, useCoinSearch, useCoinsByIds, useTopCoins } from '@/hooks/use-market-data';
+import { useCommandPalette } from '@/hooks/use-command-palette';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { GODD_MINT } from '@/services/solanaRpc';
 import { useMediaQuery } from 'react-responsive'; 
 import FogBackground from './FogBackground'; 
+import PriceChart from './PriceChart';
+import CoinDetailsPanel from './CoinDetailsPanel';
+import CoinList from './CoinList';
+import PortfolioWidget from './PortfolioWidget';
+import WalletStatus from './WalletStatus';
+import TokenStatsPanel from './TokenStatsPanel';
+import CoinLogo from './CoinLogo';
+import BondingCurvePanel from './BondingCurvePanel';
+import CurrencySelector from './CurrencySelector';
+
+// Full refresh cadence; live ticks cover prices in between while the stream is open
+const POLL_INTERVAL_MS = 60 * 1000;
+const STREAMING_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+type MarketTab = 'market' | 'watchlist';
 
 const ParallaxScene = () => {
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const containerRef = useRef<HTMLDivElement>(null);
-  const [topCoins, setTopCoins] = useState<CoinData[]>([]);
-  const [displayedCoins, setDisplayedCoins] = useState<CoinData[]>([]);
-  const [trendingCoins, setTrendingCoins] = useState<TrendingCoin[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [selectedCoin, setSelectedCoin] = useState<CoinData | null>(null);
-  const [selectedCoinDetails, setSelectedCoinDetails] = useState<CoinData | null>(null);
+  const [selectedCoinId, setSelectedCoinId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState<string>("");
-  const [isSearching, setIsSearching] = useState<boolean>(false);
-  const [searchResults, setSearchResults] = useState<CoinData[]>([]);
+  const [submittedQuery, setSubmittedQuery] = useState<string>("");
+  const [marketTab, setMarketTab] = useState<MarketTab>('market');
+  const [showTokenStats, setShowTokenStats] = useState(false);
+  const [currency, setCurrency] = useCurrency();
   const isMobile = useMediaQuery({ query: '(max-width: 768px)' });
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { setOpen: setPaletteOpen } = useCommandPalette();
 
-  useEffect(() => {
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        const [topCoinsData, trendingCoinsData] = await Promise.all([
-          fetchTopCoins('usd', 20),
-          fetchTrendingCoins()
-        ]);
-        
-        setTopCoins(topCoinsData);
-        setDisplayedCoins(topCoinsData.slice(0, 5)); 
-        setTrendingCoins(trendingCoinsData);
-        
-        if (topCoinsData.length > 0 && !selectedCoin) {
-          setSelectedCoin(topCoinsData[0]);
-        }
-      } catch (error) {
-        console.error('Error fetching cryptocurrency data:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  // Set once the stream status is known below; read whenever the next poll is scheduled
+  const isStreamingRef = useRef<boolean>(false);
+  const pollInterval = () => isStreamingRef.current ? STREAMING_POLL_INTERVAL_MS : POLL_INTERVAL_MS;
 
-    fetchData();
-    
-    const intervalId = setInterval(fetchData, 60000);
-    return () => clearInterval(intervalId);
-  }, [selectedCoin]);
+  const topCoinsQuery = useTopCoins(currency, 20, { refetchInterval: pollInterval });
+  const topCoins = topCoinsQuery.data ?? [];
+  const isLoading = topCoinsQuery.isPending;
 
-  useEffect(() => {
-    if (!selectedCoin) return;
-    
-    const fetchSelectedCoinDetails = async () => {
-      try {
-        const coinDetails = await fetchCoinData(selectedCoin.id);
-        if (coinDetails) {
-          setSelectedCoinDetails(coinDetails);
-        }
-      } catch (error) {
-        console.error(`Error fetching details for ${selectedCoin.name}:`, error);
-      }
+  // Quotes for the first few search hits in one batched request; coins already in the top list reuse that quote
+  const searchResultsQuery = useCoinSearch(submittedQuery);
+  const searchHits = (searchResultsQuery.data ?? []).slice(0, 5);
+
+  // A pasted address of a token CoinGecko doesn't list has no quotes; picking it opens its token page
+  const unlistedTokenPaths = new Map(searchHits
+    .filter(item => item.contract && !item.contract.listed)
+    .map(item => [item.id, `/token/${item.contract!.platform}/${item.contract!.address}`]));
+
+  const missingIds = searchHits
+    .filter(item => !unlistedTokenPaths.has(item.id) && !topCoins.some(coin => coin.id === item.id))
+    .map(item => item.id);
+  const searchQuotesQuery = useCoinsByIds(missingIds, currency);
+  const isSearching = searchResultsQuery.isFetching || (missingIds.length > 0 && searchQuotesQuery.isFetching);
+
+  const searchedCoins: CoinData[] = searchHits.map(item => {
+    const existingCoin = topCoins.find(coin => coin.id === item.id);
+    if (existingCoin) return existingCoin;
+
+    return searchQuotesQuery.data?.find(coin => coin.id === item.id) || {
+      id: item.id,
+      symbol: item.symbol,
+      name: item.name,
+      image: item.thumb || getCryptoImageUrl(item.id),
+      current_price: 0,
+      price_change_percentage_24h: 0,
+      market_cap: 0,
+      market_cap_rank: item.market_cap_rank || 0,
+      total_volume: 0
     };
-    
-    fetchSelectedCoinDetails();
-  }, [selectedCoin]);
-  
-  const handleSearch = async () => {
-    if (!searchQuery.trim()) {
-      setDisplayedCoins(topCoins.slice(0, 5));
-      setIsSearching(false);
-      return;
-    }
-    
-    setIsSearching(true);
-    try {
-      const results = await searchCryptocurrencies(searchQuery);
-      
-      const searchedCoins = await Promise.all(
-        results.slice(0, 5).map(async (item) => {
-          const existingCoin = topCoins.find(coin => coin.id === item.id);
-          if (existingCoin) return existingCoin;
-          
-          const coinData = await fetchCoinData(item.id);
-          return coinData || {
-            id: item.id,
-            symbol: item.symbol,
-            name: item.name,
-            image: item.thumb || getCryptoImageUrl(item.id),
-            current_price: 0,
-            price_change_percentage_24h: 0,
-            market_cap: 0,
-            market_cap_rank: item.market_cap_rank || 0,
-            total_volume: 0
-          };
-        })
-      );
-      
-      const validResults = searchedCoins.filter(coin => coin !== null) as CoinData[];
-      setDisplayedCoins(validResults);
-      
-      if (validResults.length > 0 && (!selectedCoin || !validResults.find(coin => coin.id === selectedCoin.id))) {
-        setSelectedCoin(validResults[0]);
-      }
-    } catch (error) {
-      console.error('Error searching cryptocurrencies:', error);
-    } finally {
-      setIsSearching(false);
-    }
+  });
+
+  const displayedCoins = submittedQuery ? searchedCoins : topCoins.slice(0, 5);
+
+  // Starred coins, all quoted by one batched request; the previous quotes stay up while the list changes
+  const { watchlist } = useWatchlist();
+  const watchlistQuery = useCoinsByIds(watchlist, currency, { refetchInterval: pollInterval });
+  const watchlistCoins = (watchlistQuery.data ?? []).filter(coin => watchlist.includes(coin.id));
+  const isWatchlistLoading = watchlist.length > 0 && watchlistQuery.isPending;
+
+  const listedCoins = marketTab === 'watchlist' ? watchlistCoins : displayedCoins;
+
+  // Keep the chosen coin while it is listed; otherwise follow the first search hit or the top coin
+  const findSelected = (coins: CoinData[]) => coins.find(coin => coin.id === selectedCoinId);
+  const selectedCoin = findSelected(listedCoins)
+    ?? (submittedQuery && marketTab === 'market'
+      ? searchedCoins.find(coin => !unlistedTokenPaths.has(coin.id))
+      : findSelected([...topCoins, ...watchlistCoins]))
+    ?? topCoins[0]
+    ?? null;
+
+  const { data: selectedCoinDetails } = useCoin(selectedCoin?.id, currency, { refetchInterval: pollInterval });
+
+  // Live ticks are written straight into the cached quotes every widget reads from
+  const handlePriceTicks = useCallback((ticks: PriceTick[]) => {
+    applyPriceTicks(queryClient, ticks);
+  }, [queryClient]);
+
+  const streamedIds = listedCoins.map(coin => coin.id);
+  if (selectedCoin && !streamedIds.includes(selectedCoin.id)) {
+    streamedIds.push(selectedCoin.id);
+  }
+  const streamStatus = usePriceStream(streamedIds, currency, handlePriceTicks);
+  const isStreaming = streamStatus === 'open';
+  isStreamingRef.current = isStreaming;
+
+  const handleSearch = () => {
+    setSubmittedQuery(searchQuery.trim());
+    setMarketTab('market');
   };
 
   useEffect(() => {
@@ -145,9 +155,19 @@ const ParallaxScene = () => {
   }, []);
 
   const handleSelectCoin = (coin: CoinData) => {
-    setSelectedCoin(coin);
+    const tokenPath = unlistedTokenPaths.get(coin.id);
+    if (tokenPath) {
+      navigate(tokenPath);
+      return;
+    }
+    setSelectedCoinId(coin.id);
   };
 
+  // Prefer the detail quote for the selected coin once it has loaded
+  const activeCoin = selectedCoinDetails && selectedCoinDetails.id === selectedCoin?.id
+    ? selectedCoinDetails
+    : selectedCoin;
+
   return (
     <div
       ref={containerRef}
@@ -193,10 +213,10 @@ const ParallaxScene = () => {
       {isMobile && (
         <div className="relative z-30 pt-6">
           {/* Floating Coin Image - Top centered on mobile */}
-          {selectedCoin && (
+          {activeCoin && (
             <div className="w-24 h-24 mx-auto mb-6">
               <div className="w-full h-full rounded-full overflow-hidden border-2 border-blue-400/30 shadow-lg shadow-blue-500/20 animate-pulse-slow">
-                <img src={selectedCoin.image} alt={selectedCoin.name} className="w-full h-full object-cover" />
+                <CoinLogo coinId={activeCoin.id} src={activeCoin.image} alt={activeCoin.name} className="w-full h-full object-cover" />
               </div>
               <style>
                 {`
@@ -223,44 +243,53 @@ const ParallaxScene = () => {
             <div className="bg-[#181632]/80 border border-blue-900/30 backdrop-blur-md p-5 rounded-lg shadow-lg flex flex-col transition-all w-full">
               <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Coin Details</h3>
               
-              {selectedCoin && (
+              {activeCoin && (
                 <div className="w-full">
                   <div className="text-white text-2xl font-bold px-0 py-2">
-                    {selectedCoin.name}
+                    {activeCoin.name}
                   </div>
                   <div className="flex justify-between items-center mt-2 px-0">
                     <span className="text-gray-400 text-sm">Price:</span>
-                    <span className="text-white text-md">{formatPrice(selectedCoin.current_price)}</span>
+                    <span className="text-white text-md">{formatPrice(activeCoin.current_price, currency)}</span>
                   </div>
                   <div className="flex justify-between items-center mt-2 px-2">
                     <span className="text-gray-300 text-sm font-medium">24h Change:</span>
-                    <span className={`text-md font-semibold ${selectedCoin.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                      {formatPriceChange(selectedCoin.price_change_percentage_24h)}
+                    <span className={`text-md font-semibold ${activeCoin.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatPriceChange(activeCoin.price_change_percentage_24h)}
                     </span>
                   </div>
                   <div className="flex justify-between items-center mt-2 px-2">
                     <span className="text-gray-300 text-sm font-medium">Market Cap:</span>
-                    <span className="text-white text-md font-semibold">${formatCompactNumber(selectedCoin.market_cap)}</span>
+                    <span className="text-white text-md font-semibold">{formatCurrencyCompact(activeCoin.market_cap, currency)}</span>
                   </div>
                   <div className="flex justify-between items-center mt-2 px-2">
                     <span className="text-gray-300 text-sm font-medium">Volume (24h):</span>
-                    <span className="text-white text-md font-semibold">${formatCompactNumber(selectedCoin.total_volume)}</span>
+                    <span className="text-white text-md font-semibold">{formatCurrencyCompact(activeCoin.total_volume, currency)}</span>
                   </div>
                   <div className="flex justify-between items-center mt-2 px-2">
                     <span className="text-gray-300 text-sm font-medium">Rank:</span>
-                    <span className="text-white text-md font-semibold">#{selectedCoin.market_cap_rank}</span>
+                    <span className="text-white text-md font-semibold">#{activeCoin.market_cap_rank}</span>
                   </div>
+
+                  <PriceChart coinId={activeCoin.id} currency={currency} className="mt-4" />
+                  <CoinDetailsPanel coinId={activeCoin.id} currency={currency} />
                   
                   <button 
                     onClick={() => openMoonPayWidget({
                       apiKey: import.meta.env.VITE_MOONPAY_API_KEY || '',
-                      currencyCode: selectedCoin.symbol.toLowerCase(),
+                      currencyCode: activeCoin.symbol.toLowerCase(),
                       colorCode: '#8a2be2'
                     })}
                     className="w-full bg-violet-600 text-white py-3 px-4 rounded-xl text-sm font-medium hover:bg-violet-700 mt-4"
                   >
-                    Buy {selectedCoin.symbol.toUpperCase()}
+                    Buy {activeCoin.symbol.toUpperCase()}
                   </button>
+                  <Link
+                    to={`/coin/${activeCoin.id}`}
+                    className="block text-center text-blue-300 hover:text-white text-sm mt-3"
+                  >
+                    View full details
+                  </Link>
                 </div>
               )}
             </div>
@@ -298,12 +327,12 @@ const ParallaxScene = () => {
                   <div className="flex items-center justify-center flex-wrap">
                     <span className="text-blue-300 text-sm font-semibold mr-2 mb-1">CA:</span>
                     <span className="text-white text-sm font-medium tracking-wider break-all w-full mb-2">
-                      HwQPzaohHzmx8X3nL3nSCfwVGLwQcsMEritEoqTBpump
+                      {GODD_MINT}
                     </span>
                     <button
                       className="text-xs bg-transparent hover:bg-blue-700/30 text-blue-300 py-1 px-3 rounded border border-blue-500/30 transition-all"
                       onClick={() => {
-                        navigator.clipboard.writeText("HwQPzaohHzmx8X3nL3nSCfwVGLwQcsMEritEoqTBpump");
+                        navigator.clipboard.writeText(GODD_MINT);
                         const btn = document.activeElement as HTMLElement;
                         if (btn) {
                           const originalText = btn.innerText;
@@ -318,7 +347,19 @@ const ParallaxScene = () => {
                     >
                       Copy
                     </button>
+                    <button
+                      className="ml-2 text-xs bg-transparent hover:bg-blue-700/30 text-blue-300 py-1 px-3 rounded border border-blue-500/30 transition-all"
+                      onClick={() => setShowTokenStats(show => !show)}
+                    >
+                      {showTokenStats ? 'Hide stats' : 'Stats'}
+                    </button>
                   </div>
+                  {showTokenStats && (
+                    <>
+                      <TokenStatsPanel className="mt-3 pt-2 border-t border-blue-500/20" />
+                      <BondingCurvePanel className="mt-2 pt-2 border-t border-blue-500/20" />
+                    </>
+                  )}
                 </div>
               </div>
             </div>
@@ -327,7 +368,20 @@ const ParallaxScene = () => {
           {/* Market Overview - With proper spacing */}
           <div className="w-full max-w-[400px] mx-auto mb-8">
             <div className="bg-[#181632]/80 border border-blue-900/30 backdrop-blur-md p-5 rounded-lg shadow-lg transition-all w-full">
-              <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Market Overview</h3>
+              <div className="flex items-center justify-between mb-2 pb-2 border-b border-blue-900/30">
+                <h3 className="text-blue-300 text-lg">Market Overview</h3>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setPaletteOpen(true)}
+                    aria-label="Open command palette"
+                    title="Search (⌘K)"
+                    className="text-gray-400 hover:text-white"
+                  >
+                    <Search className="w-4 h-4" />
+                  </button>
+                  <CurrencySelector value={currency} onChange={setCurrency} />
+                </div>
+              </div>
               
               {/* Search input */}
               <div className="flex mb-3">
@@ -348,74 +402,67 @@ const ParallaxScene = () => {
                 </button>
               </div>
               
-              {/* Scrollable list - slightly taller on mobile */}
-              <div className="max-h-[200px] overflow-y-auto custom-scrollbar pb-1">
-                {isLoading || isSearching ? (
-                  <div className="animate-pulse space-y-3 px-1">
-                    <div className="h-8 bg-[#131136] w-full"></div>
-                    <div className="h-8 bg-[#131136] w-full"></div>
-                    <div className="h-8 bg-[#131136] w-full"></div>
-                    <div className="h-8 bg-[#131136] w-full"></div>
+              {/* Market prices and watchlist - slightly taller on mobile */}
+              <Tabs value={marketTab} onValueChange={(value) => setMarketTab(value as MarketTab)}>
+                <TabsList className="grid w-full grid-cols-2 h-8 mb-2 p-0.5 rounded-none bg-[#131136] text-gray-400">
+                  <TabsTrigger value="market" className="rounded-none py-1 text-xs data-[state=active]:bg-blue-600 data-[state=active]:text-white">
+                    {submittedQuery ? 'Search Results' : 'Market Prices'}
+                  </TabsTrigger>
+                  <TabsTrigger value="watchlist" className="rounded-none py-1 text-xs data-[state=active]:bg-blue-600 data-[state=active]:text-white">
+                    Watchlist{watchlist.length > 0 && ` (${watchlist.length})`}
+                  </TabsTrigger>
+                </TabsList>
+                <TabsContent value="market" className="mt-0">
+                  <div className="max-h-[200px] overflow-y-auto custom-scrollbar pb-1">
+                    <CoinList
+                      coins={displayedCoins}
+                      currency={currency}
+                      selectedCoinId={selectedCoin?.id}
+                      onSelect={handleSelectCoin}
+                      isLoading={isLoading || isSearching}
+                    />
                   </div>
-                ) : displayedCoins.length > 0 ? (
-                  displayedCoins.map(coin => (
-                    <div 
-                      key={coin.id} 
-                      onClick={() => handleSelectCoin(coin)}
-                      className={`flex items-center justify-between py-2 px-1 cursor-pointer ${
-                        selectedCoin?.id === coin.id ? 'bg-[#131136]/70' : ''
-                      }`}
-                    >
-                      <div className="flex items-center">
-                        <div className="w-6 h-6 mr-2 bg-gray-700/30 rounded-full overflow-hidden flex items-center justify-center text-sm">
-                          <img 
-                            src={coin.image} 
-                            alt={coin.name} 
-                            className="w-5 h-5 object-contain" 
-                            onError={(e) => {
-                              (e.target as HTMLImageElement).style.display = 'none';
-                              const parent = (e.target as HTMLImageElement).parentElement;
-                              if (parent) {
-                                parent.innerHTML = `<span class="text-white font-bold">${coin.symbol.charAt(0).toUpperCase()}</span>`;
-                              }
-                            }}
-                          />
-                        </div>
-                        <span className="text-white font-medium text-sm">{coin.symbol.toUpperCase()}</span>
-                      </div>
-                      <div className="flex items-center">
-                        <span className="text-white text-sm mr-3">${formatPrice(coin.current_price)}</span>
-                        <span className={`text-sm ${coin.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                          {formatPriceChange(coin.price_change_percentage_24h)}
-                        </span>
-                      </div>
-                    </div>
-                  ))
-                ) : (
-                  <div className="flex items-center justify-center h-32 text-gray-400 text-sm">
-                    No results found
+                </TabsContent>
+                <TabsContent value="watchlist" className="mt-0">
+                  <div className="max-h-[200px] overflow-y-auto custom-scrollbar pb-1">
+                    <CoinList
+                      coins={watchlistCoins}
+                      currency={currency}
+                      selectedCoinId={selectedCoin?.id}
+                      onSelect={handleSelectCoin}
+                      isLoading={isWatchlistLoading}
+                      emptyMessage="Star a coin to add it to your watchlist"
+                    />
                   </div>
-                )}
-              </div>
+                </TabsContent>
+              </Tabs>
               
               <div className="text-gray-400 text-xs flex justify-between pt-2 mt-1">
-                <span>{searchQuery ? 'Search Results' : 'Market Prices'}</span>
+                <span>
+                  {marketTab === 'watchlist' ? 'Watchlist' : submittedQuery ? 'Search Results' : 'Market Prices'}
+                  {isStreaming && <span className="text-green-400 ml-2">● Live</span>}
+                </span>
                 <span>{new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
               </div>
             </div>
           </div>
 
+          {/* Portfolio - With proper spacing */}
+          <div className="w-full max-w-[400px] mx-auto mb-8">
+            <PortfolioWidget />
+          </div>
+
           {/* Price Range - With proper spacing */}
           <div className="w-full max-w-[400px] mx-auto mb-8">
             <div className="bg-[#1E1A45]/60 border border-blue-500/20 backdrop-blur-md p-5 rounded-xl overflow-hidden shadow-lg w-full">
               <h3 className="text-blue-300 text-xl font-medium mb-4">Price Range (24h)</h3>
               {isLoading ? (
                 <div className="w-full h-32 rounded-xl bg-gray-700/50 animate-pulse mb-2"></div>
-              ) : selectedCoin ? (
+              ) : activeCoin ? (
                 <div className="w-full mb-2">
                   <div className="flex justify-between items-center text-xs text-gray-300 mb-2 px-3">
-                    <div>Low: {formatPrice(selectedCoin.low_24h || selectedCoin.current_price * 0.9)}</div>
-                    <div>High: {formatPrice(selectedCoin.high_24h || selectedCoin.current_price * 1.1)}</div>
+                    <div>Low: {formatPrice(activeCoin.low_24h || activeCoin.current_price * 0.9, currency)}</div>
+                    <div>High: {formatPrice(activeCoin.high_24h || activeCoin.current_price * 1.1, currency)}</div>
                   </div>
                   
                   <div className="relative h-8 bg-gray-700/30 rounded-lg overflow-hidden mb-4">
@@ -424,9 +471,9 @@ const ParallaxScene = () => {
                     <div 
                       className="absolute bottom-0 h-full w-1 bg-white"
                       style={{ 
-                        left: `${selectedCoin.high_24h && selectedCoin.low_24h 
-                          ? ((selectedCoin.current_price - (selectedCoin.low_24h || 0)) / 
-                            ((selectedCoin.high_24h || selectedCoin.current_price * 1.1) - (selectedCoin.low_24h || selectedCoin.current_price * 0.9)) * 100)
+                        left: `${activeCoin.high_24h && activeCoin.low_24h 
+                          ? ((activeCoin.current_price - (activeCoin.low_24h || 0)) / 
+                            ((activeCoin.high_24h || activeCoin.current_price * 1.1) - (activeCoin.low_24h || activeCoin.current_price * 0.9)) * 100)
                           : 50}%` 
                       }}
                     ></div>
@@ -439,19 +486,19 @@ const ParallaxScene = () => {
                   <div className="space-y-2 mb-4">
                     <div className="flex justify-between items-center">
                       <span className="text-gray-300 text-sm">Current</span>
-                      <span className="text-white text-sm font-medium">{formatPrice(selectedCoin.current_price)}</span>
+                      <span className="text-white text-sm font-medium">{formatPrice(activeCoin.current_price, currency)}</span>
                     </div>
                     <div className="flex justify-between items-center">
                       <span className="text-gray-300 text-sm">24h Change</span>
-                      <span className={`text-sm font-medium ${selectedCoin.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                        {formatPriceChange(selectedCoin.price_change_percentage_24h)}
+                      <span className={`text-sm font-medium ${activeCoin.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {formatPriceChange(activeCoin.price_change_percentage_24h)}
                       </span>
                     </div>
                   </div>
                   
                   <div className="pt-3 border-t border-white/10">
                     <div className="text-center text-sm text-violet-300 font-medium">
-                      {selectedCoin.price_change_percentage_24h >= 0 ? 'Bullish' : 'Bearish'} over the last 24 hours
+                      {activeCoin.price_change_percentage_24h >= 0 ? 'Bullish' : 'Bearish'} over the last 24 hours
                     </div>
                   </div>
                 </div>
@@ -463,7 +510,7 @@ const ParallaxScene = () => {
             </div>
           </div>
 
-          {/* Ardock/ABI Info - With proper spacing */}
+          {/* Ardock/ABI Info - Solana wallet */}
           <div className="w-full max-w-[400px] mx-auto mb-8">
             <div className="bg-[#1E1A45]/60 border border-blue-500/20 backdrop-blur-md p-5 rounded-xl shadow-lg w-full">
               <div className="flex items-center justify-center mb-4">
@@ -485,20 +532,7 @@ const ParallaxScene = () => {
                 </div>
               </div>
               
-              <div className="mb-4">
-                <div className="flex justify-between items-center text-sm my-2">
-                  <span className="text-gray-300 font-medium">Connected:</span>
-                  <span className="text-white font-medium">{selectedCoin ? 'Yes' : 'No'}</span>
-                </div>
-                <div className="flex justify-between items-center text-sm my-2">
-                  <span className="text-gray-300 font-medium">Balance:</span>
-                  <span className="text-white font-medium">0.00000918 BTC</span>
-                </div>
-                <div className="flex justify-between items-center text-sm my-2">
-                  <span className="text-gray-300 font-medium">Transactions:</span>
-                  <span className="text-white font-medium">#457</span>
-                </div>
-              </div>
+              <WalletStatus className="mb-4" />
               
               <div className="mt-4 pt-3 border-t border-white/10">
                 <div className="text-center">
@@ -644,7 +678,7 @@ const ParallaxScene = () => {
             className="absolute w-full h-full z-20 pointer-events-none"
           >
             {/* Floating Coin Image */}
-            {selectedCoin && (
+            {activeCoin && (
               <div
                 className="absolute top-[8%] left-[8%] w-32 h-32 pointer-events-auto"
                 style={{
@@ -653,7 +687,7 @@ const ParallaxScene = () => {
                 }}
               >
                 <div className="w-full h-full rounded-full overflow-hidden border-2 border-blue-400/30 shadow-lg shadow-blue-500/20 animate-pulse-slow">
-                  <img src={selectedCoin.image} alt={selectedCoin.name} className="w-full h-full object-cover" />
+                  <CoinLogo coinId={activeCoin.id} src={activeCoin.image} alt={activeCoin.name} className="w-full h-full object-cover" />
                 </div>
                 <style>
                   {`
@@ -685,44 +719,53 @@ const ParallaxScene = () => {
               <div className="bg-[#181632]/80 border border-blue-900/30 backdrop-blur-md p-4 md:p-5 rounded-lg md:rounded-none shadow-lg flex flex-col transition-all w-full">
                 <h3 className="text-blue-300 text-base md:text-lg mb-1 pb-2 border-b border-blue-900/30">Coin Details</h3>
                 
-                {selectedCoin && (
+                {activeCoin && (
                   <div className="w-full">
                     <div className="text-white text-xl md:text-2xl font-bold px-0 py-1 md:py-2">
-                      {selectedCoin.name}
+                      {activeCoin.name}
                     </div>
                     <div className="flex justify-between items-center mt-1 md:mt-2 px-0">
                       <span className="text-gray-400 text-xs md:text-sm">Price:</span>
-                      <span className="text-white text-sm md:text-md">{formatPrice(selectedCoin.current_price)}</span>
+                      <span className="text-white text-sm md:text-md">{formatPrice(activeCoin.current_price, currency)}</span>
                     </div>
                     <div className="flex justify-between items-center mt-1 md:mt-2 px-1 md:px-2">
                       <span className="text-gray-300 text-xs md:text-sm font-medium">24h Change:</span>
-                      <span className={`text-sm md:text-md font-semibold ${selectedCoin.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                        {formatPriceChange(selectedCoin.price_change_percentage_24h)}
+                      <span className={`text-sm md:text-md font-semibold ${activeCoin.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {formatPriceChange(activeCoin.price_change_percentage_24h)}
                       </span>
                     </div>
                     <div className="flex justify-between items-center mt-1 md:mt-2 px-1 md:px-2">
                       <span className="text-gray-300 text-xs md:text-sm font-medium">Market Cap:</span>
-                      <span className="text-white text-sm md:text-md font-semibold">${formatCompactNumber(selectedCoin.market_cap)}</span>
+                      <span className="text-white text-sm md:text-md font-semibold">{formatCurrencyCompact(activeCoin.market_cap, currency)}</span>
                     </div>
                     <div className="flex justify-between items-center mt-1 md:mt-2 px-1 md:px-2">
                       <span className="text-gray-300 text-xs md:text-sm font-medium">Volume (24h):</span>
-                      <span className="text-white text-sm md:text-md font-semibold">${formatCompactNumber(selectedCoin.total_volume)}</span>
+                      <span className="text-white text-sm md:text-md font-semibold">{formatCurrencyCompact(activeCoin.total_volume, currency)}</span>
                     </div>
                     <div className="flex justify-between items-center mt-1 md:mt-2 px-1 md:px-2">
                       <span className="text-gray-300 text-xs md:text-sm font-medium">Rank:</span>
-                      <span className="text-white text-sm md:text-md font-semibold">#{selectedCoin.market_cap_rank}</span>
+                      <span className="text-white text-sm md:text-md font-semibold">#{activeCoin.market_cap_rank}</span>
                     </div>
+
+                    <PriceChart coinId={activeCoin.id} currency={currency} className="mt-3 md:mt-4" />
+                    <CoinDetailsPanel coinId={activeCoin.id} currency={currency} />
                     
                     <button 
                       onClick={() => openMoonPayWidget({
                         apiKey: import.meta.env.VITE_MOONPAY_API_KEY || '',
-                        currencyCode: selectedCoin.symbol.toLowerCase(),
+                        currencyCode: activeCoin.symbol.toLowerCase(),
                         colorCode: '#8a2be2'
                       })}
                       className="w-full bg-violet-600 text-white py-2 px-4 rounded-lg md:rounded-xl text-xs md:text-sm font-medium hover:bg-violet-700 mt-3 md:mt-4"
                     >
-                      Buy {selectedCoin.symbol.toUpperCase()}
+                      Buy {activeCoin.symbol.toUpperCase()}
                     </button>
+                    <Link
+                      to={`/coin/${activeCoin.id}`}
+                      className="block text-center text-blue-300 hover:text-white text-xs md:text-sm mt-2 md:mt-3"
+                    >
+                      View full details
+                    </Link>
                   </div>
                 )}
               </div>
@@ -736,7 +779,20 @@ const ParallaxScene = () => {
               }}
             >
               <div className="bg-[#181632]/80 border border-blue-900/30 backdrop-blur-md p-4 md:p-5 rounded-lg md:rounded-none shadow-lg transition-all w-full">
-                <h3 className="text-blue-300 text-base md:text-lg mb-1 pb-2 border-b border-blue-900/30">Market Overview</h3>
+                <div className="flex items-center justify-between mb-1 pb-2 border-b border-blue-900/30">
+                  <h3 className="text-blue-300 text-base md:text-lg">Market Overview</h3>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setPaletteOpen(true)}
+                      aria-label="Open command palette"
+                      title="Search (⌘K)"
+                      className="text-gray-400 hover:text-white"
+                    >
+                      <Search className="w-4 h-4" />
+                    </button>
+                    <CurrencySelector value={currency} onChange={setCurrency} />
+                  </div>
+                </div>
                 
                 {/* Search input - styled exactly like screenshot */}
                 <div className="flex mb-3">
@@ -757,63 +813,61 @@ const ParallaxScene = () => {
                   </button>
                 </div>
                 
-                {/* Scrollable list - adjust max-height? */}
-                <div className="max-h-[150px] md:max-h-[190px] overflow-y-auto custom-scrollbar pb-1">
-                  {isLoading || isSearching ? (
-                    <div className="animate-pulse space-y-2 md:space-y-3 px-1">
-                      <div className="h-6 md:h-8 bg-[#131136] w-full"></div>
-                      <div className="h-6 md:h-8 bg-[#131136] w-full"></div>
-                      <div className="h-6 md:h-8 bg-[#131136] w-full"></div>
-                      <div className="h-6 md:h-8 bg-[#131136] w-full"></div>
+                {/* Market prices and watchlist */}
+                <Tabs value={marketTab} onValueChange={(value) => setMarketTab(value as MarketTab)}>
+                  <TabsList className="grid w-full grid-cols-2 h-8 mb-2 p-0.5 rounded-none bg-[#131136] text-gray-400">
+                    <TabsTrigger value="market" className="rounded-none py-1 text-[10px] md:text-xs data-[state=active]:bg-blue-600 data-[state=active]:text-white">
+                      {submittedQuery ? 'Search Results' : 'Market Prices'}
+                    </TabsTrigger>
+                    <TabsTrigger value="watchlist" className="rounded-none py-1 text-[10px] md:text-xs data-[state=active]:bg-blue-600 data-[state=active]:text-white">
+                      Watchlist{watchlist.length > 0 && ` (${watchlist.length})`}
+                    </TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="market" className="mt-0">
+                    <div className="max-h-[150px] md:max-h-[190px] overflow-y-auto custom-scrollbar pb-1">
+                      <CoinList
+                        coins={displayedCoins}
+                        currency={currency}
+                        selectedCoinId={selectedCoin?.id}
+                        onSelect={handleSelectCoin}
+                        isLoading={isLoading || isSearching} compact
+                      />
                     </div>
-                  ) : displayedCoins.length > 0 ? (
-                    displayedCoins.map(coin => (
-                      <div 
-                        key={coin.id} 
-                        onClick={() => handleSelectCoin(coin)}
-                        className={`flex items-center justify-between py-1.5 md:py-2 px-1 cursor-pointer ${
-                          selectedCoin?.id === coin.id ? 'bg-[#131136]/70' : ''
-                        }`}
-                      >
-                        <div className="flex items-center">
-                          <div className="w-5 h-5 md:w-6 md:h-6 mr-2 bg-gray-700/30 rounded-full overflow-hidden flex items-center justify-center text-xs md:text-sm">
-                            <img 
-                              src={coin.image} 
-                              alt={coin.name} 
-                              className="w-4 h-4 md:w-5 md:h-5 object-contain" 
-                              onError={(e) => {
-                                (e.target as HTMLImageElement).style.display = 'none';
-                                const parent = (e.target as HTMLImageElement).parentElement;
-                                if (parent) {
-                                  parent.innerHTML = `<span class="text-white font-bold">${coin.symbol.charAt(0).toUpperCase()}</span>`;
-                                }
-                              }}
-                            />
-                          </div>
-                          <span className="text-white font-medium text-xs md:text-sm">{coin.symbol.toUpperCase()}</span>
-                        </div>
-                        <div className="flex items-center">
-                          <span className="text-white text-xs md:text-sm mr-2 md:mr-3">${formatPrice(coin.current_price)}</span>
-                          <span className={`text-xs md:text-sm ${coin.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                            {formatPriceChange(coin.price_change_percentage_24h)}
-                          </span>
-                        </div>
-                      </div>
-                    ))
-                  ) : (
-                    <div className="flex items-center justify-center h-24 md:h-32 text-gray-400 text-xs md:text-sm">
-                      No results found
+                  </TabsContent>
+                  <TabsContent value="watchlist" className="mt-0">
+                    <div className="max-h-[150px] md:max-h-[190px] overflow-y-auto custom-scrollbar pb-1">
+                      <CoinList
+                        coins={watchlistCoins}
+                        currency={currency}
+                        selectedCoinId={selectedCoin?.id}
+                        onSelect={handleSelectCoin}
+                        isLoading={isWatchlistLoading}
+                        emptyMessage="Star a coin to add it to your watchlist" compact
+                      />
                     </div>
-                  )}
-                </div>
+                  </TabsContent>
+                </Tabs>
                 
                 <div className="text-gray-400 text-[10px] md:text-xs flex justify-between pt-2 mt-1">
-                  <span>{searchQuery ? 'Search Results' : 'Market Prices'}</span>
+                  <span>
+                    {marketTab === 'watchlist' ? 'Watchlist' : submittedQuery ? 'Search Results' : 'Market Prices'}
+                    {isStreaming && <span className="text-green-400 ml-2">● Live</span>}
+                  </span>
                   <span>{new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span> {/* Shorter time format */}
                 </div>
               </div>
             </div>
 
+            {/* Right edge widget - Portfolio */}
+            <div
+              className="absolute top-[42%] right-[2%] w-[240px] pointer-events-auto"
+              style={{
+                transform: `translate(${mousePosition.x * 22}px, ${mousePosition.y * 22}px)`,
+              }}
+            >
+              <PortfolioWidget className="md:rounded-none" />
+            </div>
+
             {/* Bottom left widget - Price Range */}
             <div
               className="absolute bottom-[12%] left-[15%] w-[300px] pointer-events-auto"
@@ -825,11 +879,11 @@ const ParallaxScene = () => {
                 <h3 className="text-blue-300 text-lg md:text-xl font-medium mb-3 md:mb-4">Price Range (24h)</h3>
                 {isLoading ? (
                   <div className="w-full h-24 md:h-32 rounded-xl bg-gray-700/50 animate-pulse mb-2"></div>
-                ) : selectedCoin ? (
+                ) : activeCoin ? (
                   <div className="w-full mb-2">
                     <div className="flex justify-between items-center text-[10px] md:text-xs text-gray-300 mb-2 px-1 md:px-3">
-                      <div>Low: {formatPrice(selectedCoin.low_24h || selectedCoin.current_price * 0.9)}</div>
-                      <div>High: {formatPrice(selectedCoin.high_24h || selectedCoin.current_price * 1.1)}</div>
+                      <div>Low: {formatPrice(activeCoin.low_24h || activeCoin.current_price * 0.9, currency)}</div>
+                      <div>High: {formatPrice(activeCoin.high_24h || activeCoin.current_price * 1.1, currency)}</div>
                     </div>
                     
                     <div className="relative h-6 md:h-8 bg-gray-700/30 rounded-lg overflow-hidden mb-3 md:mb-4">
@@ -838,9 +892,9 @@ const ParallaxScene = () => {
                       <div 
                         className="absolute bottom-0 h-full w-1 bg-white"
                         style={{ 
-                          left: `${selectedCoin.high_24h && selectedCoin.low_24h 
-                            ? ((selectedCoin.current_price - (selectedCoin.low_24h || 0)) / 
-                              ((selectedCoin.high_24h || selectedCoin.current_price * 1.1) - (selectedCoin.low_24h || selectedCoin.current_price * 0.9)) * 100)
+                          left: `${activeCoin.high_24h && activeCoin.low_24h 
+                            ? ((activeCoin.current_price - (activeCoin.low_24h || 0)) / 
+                              ((activeCoin.high_24h || activeCoin.current_price * 1.1) - (activeCoin.low_24h || activeCoin.current_price * 0.9)) * 100)
                             : 50}%` 
                         }}
                       ></div>
@@ -853,19 +907,19 @@ const ParallaxScene = () => {
                     <div className="space-y-1 md:space-y-2 mb-3 md:mb-4">
                       <div className="flex justify-between items-center">
                         <span className="text-gray-300 text-xs md:text-sm">Current</span>
-                        <span className="text-white text-xs md:text-sm font-medium">{formatPrice(selectedCoin.current_price)}</span>
+                        <span className="text-white text-xs md:text-sm font-medium">{formatPrice(activeCoin.current_price, currency)}</span>
                       </div>
                       <div className="flex justify-between items-center">
                         <span className="text-gray-300 text-xs md:text-sm">24h Change</span>
-                        <span className={`text-xs md:text-sm font-medium ${selectedCoin.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                          {formatPriceChange(selectedCoin.price_change_percentage_24h)}
+                        <span className={`text-xs md:text-sm font-medium ${activeCoin.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          {formatPriceChange(activeCoin.price_change_percentage_24h)}
                         </span>
                       </div>
                     </div>
                     
                     <div className="pt-2 md:pt-3 border-t border-white/10">
                       <div className="text-center text-xs md:text-sm text-violet-300 font-medium">
-                        {selectedCoin.price_change_percentage_24h >= 0 ? 'Bullish' : 'Bearish'} over the last 24 hours
+                        {activeCoin.price_change_percentage_24h >= 0 ? 'Bullish' : 'Bearish'} over the last 24 hours
                       </div>
                     </div>
                   </div>
@@ -904,20 +958,7 @@ const ParallaxScene = () => {
                   </div>
                 </div>
                 
-                <div className="mb-3 md:mb-4">
-                  <div className="flex justify-between items-center text-xs md:text-sm my-1 md:my-2">
-                    <span className="text-gray-300 font-medium">Connected:</span>
-                    <span className="text-white font-medium">{selectedCoin ? 'Yes' : 'No'}</span>
-                  </div>
-                  <div className="flex justify-between items-center text-xs md:text-sm my-1 md:my-2">
-                    <span className="text-gray-300 font-medium">Balance:</span>
-                    <span className="text-white font-medium">0.00000918 BTC</span>
-                  </div>
-                  <div className="flex justify-between items-center text-xs md:text-sm my-1 md:my-2">
-                    <span className="text-gray-300 font-medium">Transactions:</span>
-                    <span className="text-white font-medium">#457</span>
-                  </div>
-                </div>
+                <WalletStatus className="mb-3 md:mb-4" compact />
                 
                 <div className="mt-3 md:mt-4 pt-2 md:pt-3 border-t border-white/10">
                   <div className="text-center">
@@ -1042,11 +1083,11 @@ const ParallaxScene = () => {
                   <div className="relative bg-[#1E1A45]/60 border border-blue-500/20 backdrop-blur-md rounded-lg p-2 md:p-3">
                     <div className="flex items-center justify-center flex-wrap">
                       <span className="text-blue-300 text-xs md:text-sm font-semibold mr-1 md:mr-2">CA:</span>
-                      <span className="text-white text-[10px] md:text-sm font-medium tracking-normal md:tracking-wider break-all md:break-normal">HwQPzaohHzmx8X3nL3nSCfwVGLwQcsMEritEoqTBpump</span>
+                      <span className="text-white text-[10px] md:text-sm font-medium tracking-normal md:tracking-wider break-all md:break-normal">{GODD_MINT}</span>
                       <button
                         className="ml-2 md:ml-3 text-[10px] md:text-xs bg-transparent hover:bg-blue-700/30 text-blue-300 py-0.5 md:py-1 px-1.5 md:px-2 rounded border border-blue-500/30 transition-all mt-1 md:mt-0" // Add margin top on mobile if wrapped
                         onClick={() => {
-                          navigator.clipboard.writeText("HwQPzaohHzmx8X3nL3nSCfwVGLwQcsMEritEoqTBpump");
+                          navigator.clipboard.writeText(GODD_MINT);
                           const btn = document.activeElement as HTMLElement;
                           if (btn) {
                             const originalText = btn.innerText;
@@ -1061,7 +1102,19 @@ const ParallaxScene = () => {
                       >
                         Copy
                       </button>
+                      <button
+                        className="ml-1 md:ml-2 text-[10px] md:text-xs bg-transparent hover:bg-blue-700/30 text-blue-300 py-0.5 md:py-1 px-1.5 md:px-2 rounded border border-blue-500/30 transition-all mt-1 md:mt-0"
+                        onClick={() => setShowTokenStats(show => !show)}
+                      >
+                        {showTokenStats ? 'Hide stats' : 'Stats'}
+                      </button>
                     </div>
+                    {showTokenStats && (
+                      <>
+                        <TokenStatsPanel compact className="mt-2 pt-2 border-t border-blue-500/20" />
+                        <BondingCurvePanel compact className="mt-2 pt-2 border-t border-blue-500/20" />
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
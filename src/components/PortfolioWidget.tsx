@@ -0,0 +1,70 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { formatCurrencyCompact, formatPrice, formatPriceChange } from '@/services/cryptoService';
+import { usePortfolio } from '@/hooks/use-portfolio';
+
+interface PortfolioWidgetProps {
+  className?: string;
+}
+
+const pnlClassName = (value: number) => value >= 0 ? 'text-green-400' : 'text-red-400';
+
+// Portfolio value and the largest holdings, linking to the full portfolio page
+const PortfolioWidget = ({ className }: PortfolioWidgetProps) => {
+  const { currency, summary, transactions, isPending } = usePortfolio();
+  const topHoldings = summary.holdings.filter(holding => holding.quantity > 0).slice(0, 3);
+
+  return (
+    <div className={cn('bg-[#181632]/80 border border-blue-900/30 backdrop-blur-md p-4 md:p-5 rounded-lg shadow-lg w-full', className)}>
+      <div className="flex items-center justify-between mb-2 pb-2 border-b border-blue-900/30">
+        <h3 className="text-blue-300 text-base md:text-lg">Portfolio</h3>
+        <Link to="/portfolio" className="text-blue-300 hover:text-white text-xs">Open →</Link>
+      </div>
+
+      {transactions.length === 0 ? (
+        <div className="text-gray-400 text-xs py-2">
+          Record your buys and sells to track value and P&L.{' '}
+          <Link to="/portfolio" className="text-blue-300 hover:text-white">Add a transaction</Link>
+        </div>
+      ) : isPending ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-6 bg-[#131136] w-full"></div>
+          <div className="h-4 bg-[#131136] w-2/3"></div>
+        </div>
+      ) : (
+        <>
+          <div className="text-white text-xl font-bold">{formatPrice(summary.totalValue, currency)}</div>
+          <div className="flex justify-between text-xs mt-1">
+            <span className="text-gray-400">24h</span>
+            <span className={pnlClassName(summary.change24h)}>
+              {formatCurrencyCompact(summary.change24h, currency)} ({formatPriceChange(summary.change24hPercent)})
+            </span>
+          </div>
+          <div className="flex justify-between text-xs mt-1">
+            <span className="text-gray-400">Unrealized P&L</span>
+            <span className={pnlClassName(summary.unrealizedPnl)}>
+              {formatCurrencyCompact(summary.unrealizedPnl, currency)} ({formatPriceChange(summary.unrealizedPnlPercent)})
+            </span>
+          </div>
+
+          <div className="mt-3 space-y-1.5">
+            {topHoldings.map(holding => (
+              <div key={holding.coinId} className="text-xs">
+                <div className="flex justify-between text-gray-300">
+                  <span>{holding.symbol.toUpperCase()}</span>
+                  <span>{holding.allocation.toFixed(1)}%</span>
+                </div>
+                <div className="h-1 bg-gray-700/40 rounded-full overflow-hidden mt-0.5">
+                  <div className="h-full bg-violet-600" style={{ width: `${holding.allocation}%` }}></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioWidget;
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Bell, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPrice } from '@/services/cryptoService';
+import { describeCondition, type AlertCondition, type AlertKind } from '@/services/priceAlerts';
+import { useAlerts } from '@/hooks/use-alerts';
+import { Switch } from '@/components/ui/switch';
+
+interface PriceAlertsPanelProps {
+  coinId: string;
+  symbol: string;
+  name: string;
+  currency: string;
+  currentPrice: number;
+  className?: string;
+}
+
+const CONDITION_LABELS: Record<AlertKind, string> = {
+  above: 'Price above',
+  below: 'Price below',
+  change: '% change within',
+  high24h: 'Reaches 24h high',
+  low24h: 'Reaches 24h low',
+};
+
+// Windows offered for percentage-change alerts, in minutes; a full day uses the API's 24h change
+const CHANGE_WINDOWS = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 240, label: '4 hours' },
+  { minutes: 1440, label: '24 hours' },
+];
+
+const inputClassName = 'w-full bg-[#131136] text-white border border-blue-900/40 rounded py-1.5 px-2 text-sm focus:outline-none focus:border-violet-500';
+
+// Build the condition from the form, or explain what is missing
+const buildCondition = (kind: AlertKind, value: string, windowMinutes: number): AlertCondition | string => {
+  if (kind === 'high24h' || kind === 'low24h') return { kind };
+
+  const amount = Number(value);
+  if (value.trim() === '' || !Number.isFinite(amount)) {
+    return kind === 'change' ? 'Enter a percentage' : 'Enter a price';
+  }
+  if (kind === 'change') {
+    return amount === 0 ? 'Enter a non-zero percentage' : { kind, percent: amount, windowMinutes };
+  }
+  return amount > 0 ? { kind, price: amount } : 'Enter a price above zero';
+};
+
+// Create and manage price alerts for one coin, with the times they fired
+const PriceAlertsPanel = ({ coinId, symbol, name, currency, currentPrice, className }: PriceAlertsPanelProps) => {
+  const {
+    alerts,
+    history,
+    create,
+    remove,
+    setEnabled,
+    notificationPermission,
+    requestNotificationPermission
+  } = useAlerts(coinId);
+  const [kind, setKind] = useState<AlertKind>('above');
+  const [value, setValue] = useState('');
+  const [windowMinutes, setWindowMinutes] = useState(60);
+  const [repeat, setRepeat] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const condition = buildCondition(kind, value, windowMinutes);
+    if (typeof condition === 'string') {
+      setError(condition);
+      return;
+    }
+
+    create({ coinId, symbol, name, currency, condition, repeat });
+    setError(null);
+    setValue('');
+  };
+
+  const needsValue = kind === 'above' || kind === 'below' || kind === 'change';
+
+  return (
+    <div className={className}>
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <div className="flex gap-2">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as AlertKind)}
+            aria-label="Alert condition"
+            className={cn(inputClassName, needsValue ? 'w-1/2' : 'w-full')}
+          >
+            {Object.entries(CONDITION_LABELS).map(([option, label]) => (
+              <option key={option} value={option}>{label}</option>
+            ))}
+          </select>
+          {needsValue && (
+            <input
+              type="number"
+              step="any"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={kind === 'change' ? '% (e.g. -5)' : formatPrice(currentPrice, currency)}
+              aria-label={kind === 'change' ? 'Percentage change' : 'Target price'}
+              className={cn(inputClassName, 'w-1/2')}
+            />
+          )}
+        </div>
+        {kind === 'change' && (
+          <select
+            value={windowMinutes}
+            onChange={(e) => setWindowMinutes(Number(e.target.value))}
+            aria-label="Change window"
+            className={inputClassName}
+          >
+            {CHANGE_WINDOWS.map(option => (
+              <option key={option.minutes} value={option.minutes}>{option.label}</option>
+            ))}
+          </select>
+        )}
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <input type="checkbox" checked={repeat} onChange={(e) => setRepeat(e.target.checked)} />
+          Keep alerting each time the condition is met again
+        </label>
+        {error && <div className="text-red-400 text-xs">{error}</div>}
+        <button
+          type="submit"
+          className="w-full flex items-center justify-center gap-1.5 bg-violet-600 text-white py-2 px-4 rounded-xl text-sm font-medium hover:bg-violet-700"
+        >
+          <Bell className="w-4 h-4" /> Create alert
+        </button>
+      </form>
+
+      {notificationPermission === 'default' && alerts.length > 0 && (
+        <button
+          onClick={requestNotificationPermission}
+          className="mt-2 text-xs text-blue-300 hover:text-white"
+        >
+          Also notify me when this tab is in the background
+        </button>
+      )}
+
+      {alerts.length > 0 && (
+        <ul className="mt-3 space-y-1.5">
+          {alerts.map(alert => (
+            <li key={alert.id} className="flex items-center gap-2 text-sm">
+              <Switch
+                checked={alert.enabled}
+                onCheckedChange={(checked) => setEnabled(alert.id, checked)}
+                aria-label={alert.enabled ? 'Pause alert' : 'Resume alert'}
+                className="scale-75"
+              />
+              <span className={cn('flex-1', !alert.enabled && 'text-gray-500')}>
+                {describeCondition(alert.condition, alert.currency)}
+                {alert.repeat && <span className="text-gray-500 text-xs"> · repeats</span>}
+              </span>
+              <button
+                onClick={() => remove(alert.id)}
+                aria-label="Delete alert"
+                className="text-gray-500 hover:text-red-400"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {history.length > 0 && (
+        <div className="mt-3 pt-2 border-t border-blue-900/30">
+          <div className="text-gray-400 text-xs mb-1">Fired</div>
+          <ul className="space-y-1 max-h-32 overflow-y-auto">
+            {history.map(firing => (
+              <li key={firing.id} className="text-xs">
+                <div className="text-gray-300">{firing.message}</div>
+                <div className="text-gray-500">{new Date(firing.firedAt).toLocaleString()}</div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceAlertsPanel;
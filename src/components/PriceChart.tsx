@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Area, AreaChart, XAxis, YAxis } from 'recharts';
+import { cn } from '@/lib/utils';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { formatPrice, type MarketChartDays } from '@/services/cryptoService';
+import { useMarketChart } from '@/hooks/use-market-data';
+import CandlestickChart from './CandlestickChart';
+
+// Selectable time ranges for the chart
+const TIME_RANGES: { label: string; days: MarketChartDays }[] = [
+  { label: '1D', days: 1 },
+  { label: '7D', days: 7 },
+  { label: '30D', days: 30 },
+  { label: '90D', days: 90 },
+  { label: '1Y', days: 365 },
+  { label: 'Max', days: 'max' },
+];
+
+type ChartMode = 'line' | 'candles';
+
+const chartConfig = {
+  price: {
+    label: 'Price',
+    color: '#8b5cf6',
+  },
+} satisfies ChartConfig;
+
+interface PriceChartProps {
+  coinId: string;
+  currency?: string;
+  className?: string;
+}
+
+// Short axis/tooltip date label depending on how much history is shown
+const formatTimestamp = (timestamp: number, days: MarketChartDays): string => {
+  const date = new Date(timestamp);
+  if (days === 1) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  if (days === 'max' || days > 90) {
+    return date.toLocaleDateString([], { month: 'short', year: '2-digit' });
+  }
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+const PriceChart = ({ coinId, currency = 'usd', className }: PriceChartProps) => {
+  const [days, setDays] = useState<MarketChartDays>(7);
+  const [mode, setMode] = useState<ChartMode>('line');
+  const { data: points = [], isPending } = useMarketChart(coinId, currency, days, { enabled: mode === 'line' });
+
+  const isUp = points.length > 1 && points[points.length - 1].price >= points[0].price;
+
+  return (
+    <div className={cn('w-full', className)}>
+      <div className="flex justify-end gap-1 mb-1">
+        {(['line', 'candles'] as ChartMode[]).map(chartMode => (
+          <button
+            key={chartMode}
+            onClick={() => setMode(chartMode)}
+            className={cn(
+              'text-[10px] md:text-xs px-1.5 py-0.5 rounded capitalize transition-colors',
+              mode === chartMode ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+            )}
+          >
+            {chartMode}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-between mb-2">
+        {TIME_RANGES.map(range => (
+          <button
+            key={range.label}
+            onClick={() => setDays(range.days)}
+            className={cn(
+              'text-[10px] md:text-xs px-1.5 py-0.5 rounded transition-colors',
+              days === range.days ? 'bg-violet-600 text-white' : 'text-gray-400 hover:text-white'
+            )}
+          >
+            {range.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'candles' ? (
+        <CandlestickChart coinId={coinId} currency={currency} days={days} />
+      ) : isPending ? (
+        <div className="w-full h-28 rounded bg-gray-700/30 animate-pulse"></div>
+      ) : points.length > 0 ? (
+        <ChartContainer config={chartConfig} className="aspect-auto h-28 w-full">
+          <AreaChart data={points} margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+            <defs>
+              <linearGradient id={`price-fill-${coinId}`} x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor={isUp ? '#4ade80' : '#f87171'} stopOpacity={0.4} />
+                <stop offset="95%" stopColor={isUp ? '#4ade80' : '#f87171'} stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            <XAxis dataKey="timestamp" hide />
+            <YAxis dataKey="price" domain={['auto', 'auto']} hide />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  className="bg-[#181632] border-blue-900/50 text-white"
+                  labelFormatter={(_, payload) => formatTimestamp(payload?.[0]?.payload?.timestamp, days)}
+                  formatter={value => (
+                    <span className="font-mono text-white">{formatPrice(Number(value), currency)}</span>
+                  )}
+                />
+              }
+            />
+            <Area
+              type="monotone"
+              dataKey="price"
+              stroke={isUp ? '#4ade80' : '#f87171'}
+              strokeWidth={1.5}
+              fill={`url(#price-fill-${coinId})`}
+              isAnimationActive={false}
+            />
+          </AreaChart>
+        </ChartContainer>
+      ) : (
+        <div className="w-full h-28 rounded bg-gray-700/30 flex items-center justify-center">
+          <span className="text-xs text-gray-400">No price history available</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceChart;
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDate, formatPrice } from '@/services/cryptoService';
+import { buildTaxReports, taxReportToCsv, type LotMethod } from '@/services/lotAccounting';
+import type { Transaction } from '@/services/portfolio';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface TaxReportPanelProps {
+  transactions: Transaction[];
+  method: LotMethod;
+  currency: string;
+  className?: string;
+}
+
+const gainClassName = (negative: boolean) => negative ? 'text-red-400' : 'text-green-400';
+
+// Save text as a file through a temporary object URL
+const downloadFile = (filename: string, contents: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Realized gains for one tax year, matched with the portfolio's lot method
+const TaxReportPanel = ({ transactions, method, currency, className }: TaxReportPanelProps) => {
+  const reports = useMemo(() => buildTaxReports(transactions, method), [transactions, method]);
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const report = reports.find(candidate => candidate.year === selectedYear) ?? reports[0];
+
+  if (!report) {
+    return (
+      <div className={cn('text-gray-400 text-sm py-6 text-center', className)}>
+        Realized gains appear here once you record a sell.
+      </div>
+    );
+  }
+
+  const exportCsv = () => {
+    downloadFile(
+      `godsdollar-realized-gains-${report.year}-${method}.csv`,
+      taxReportToCsv(report, currency),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <select
+          value={report.year}
+          onChange={(e) => setSelectedYear(Number(e.target.value))}
+          aria-label="Tax year"
+          className="bg-[#131136] text-white border border-blue-900/40 rounded py-1 px-2 text-sm focus:outline-none"
+        >
+          {reports.map(candidate => (
+            <option key={candidate.year} value={candidate.year}>{candidate.year}</option>
+          ))}
+        </select>
+        <button
+          onClick={exportCsv}
+          className="flex items-center gap-1.5 text-sm text-blue-300 hover:text-white"
+        >
+          <Download className="w-4 h-4" /> Export CSV
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm mb-3">
+        <div>
+          <div className="text-gray-400 text-xs">Proceeds</div>
+          <div>{formatPrice(report.proceeds.toNumber(), currency)}</div>
+        </div>
+        <div>
+          <div className="text-gray-400 text-xs">Cost basis</div>
+          <div>{formatPrice(report.costBasis.toNumber(), currency)}</div>
+        </div>
+        <div>
+          <div className="text-gray-400 text-xs">Short-term gain</div>
+          <div className={gainClassName(report.shortTermGain.isNegative())}>{formatPrice(report.shortTermGain.toNumber(), currency)}</div>
+        </div>
+        <div>
+          <div className="text-gray-400 text-xs">Long-term gain</div>
+          <div className={gainClassName(report.longTermGain.isNegative())}>{formatPrice(report.longTermGain.toNumber(), currency)}</div>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow className="border-blue-900/30 hover:bg-transparent">
+            <TableHead className="text-gray-400">Asset</TableHead>
+            <TableHead className="text-gray-400">Acquired</TableHead>
+            <TableHead className="text-gray-400">Sold</TableHead>
+            <TableHead className="text-gray-400 text-right">Quantity</TableHead>
+            <TableHead className="text-gray-400 text-right">Proceeds</TableHead>
+            <TableHead className="text-gray-400 text-right">Cost basis</TableHead>
+            <TableHead className="text-gray-400 text-right">Gain</TableHead>
+            <TableHead className="text-gray-400">Term</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.disposals.map(disposal => (
+            <TableRow
+              key={`${disposal.sellTransactionId}-${disposal.buyTransactionId}`}
+              className="border-blue-900/30 hover:bg-[#131136]/70"
+            >
+              <TableCell>{disposal.symbol.toUpperCase()}</TableCell>
+              <TableCell>{formatDate(disposal.acquiredAt)}</TableCell>
+              <TableCell>{formatDate(disposal.disposedAt)}</TableCell>
+              <TableCell className="text-right">{disposal.quantity.toString()}</TableCell>
+              <TableCell className="text-right">{formatPrice(disposal.proceeds.toNumber(), currency)}</TableCell>
+              <TableCell className="text-right">{formatPrice(disposal.costBasis.toNumber(), currency)}</TableCell>
+              <TableCell className={cn('text-right', gainClassName(disposal.gain.isNegative()))}>
+                {formatPrice(disposal.gain.toNumber(), currency)}
+              </TableCell>
+              <TableCell className="capitalize">{disposal.term}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default TaxReportPanel;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { formatCompactNumber } from '@/services/cryptoService';
+import { shortenAddress } from '@/services/contractAddress';
+import { GODD_MINT } from '@/services/solanaRpc';
+import { TOP_WALLETS } from '@/services/tokenStats';
+import { useTokenStats } from '@/hooks/use-market-data';
+
+interface TokenStatsPanelProps {
+  mint?: string;
+  compact?: boolean; // Smaller text for the floating desktop widget
+  className?: string;
+}
+
+// Renounced authorities are the safe state, so they're shown in green
+const Authority = ({ address }: { address: string | null }) =>
+  address === null ? (
+    <span className="text-green-400">Renounced</span>
+  ) : (
+    <span className="text-yellow-400" title={address}>Active · {shortenAddress(address)}</span>
+  );
+
+// Supply, authorities and holder concentration of the GODD mint, read from the chain
+const TokenStatsPanel = ({ mint = GODD_MINT, compact, className }: TokenStatsPanelProps) => {
+  const { data: stats, isPending, isError } = useTokenStats(mint);
+
+  const rowClassName = cn(
+    'flex justify-between items-center gap-3',
+    compact ? 'text-[10px] md:text-xs my-1' : 'text-sm my-1.5'
+  );
+
+  if (isPending) {
+    return <div className={cn('h-24 rounded bg-gray-700/30 animate-pulse', className)}></div>;
+  }
+  if (isError || !stats) {
+    return (
+      <p className={cn('text-gray-400 text-xs', className)}>
+        {isError ? "Couldn't reach the Solana network" : 'Token not found on this network'}
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn('text-left', className)}>
+      <div className={rowClassName}>
+        <span className="text-gray-300">Total supply</span>
+        <span className="text-white font-medium">{formatCompactNumber(stats.totalSupply)}</span>
+      </div>
+      <div className={rowClassName}>
+        <span className="text-gray-300">Circulating</span>
+        <span className="text-white font-medium">{formatCompactNumber(stats.circulatingSupply)}</span>
+      </div>
+      <div className={rowClassName}>
+        <span className="text-gray-300">Decimals</span>
+        <span className="text-white font-medium">{stats.decimals}</span>
+      </div>
+      <div className={rowClassName}>
+        <span className="text-gray-300">Mint authority</span>
+        <Authority address={stats.mintAuthority} />
+      </div>
+      <div className={rowClassName}>
+        <span className="text-gray-300">Freeze authority</span>
+        <Authority address={stats.freezeAuthority} />
+      </div>
+      <div className={rowClassName}>
+        <span className="text-gray-300">Top {TOP_WALLETS} wallets</span>
+        <span className="text-white font-medium">{stats.topWalletsShare.toFixed(1)}% of circulating</span>
+      </div>
+      <div className={rowClassName}>
+        <span className="text-gray-300">Holders</span>
+        <span
+          className="text-white font-medium"
+          title={stats.holderCount === null ? 'The RPC endpoint does not allow listing token accounts' : undefined}
+        >
+          {stats.holderCount === null ? '—' : stats.holderCount.toLocaleString()}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default TokenStatsPanel;
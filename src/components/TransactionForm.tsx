@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { fetchPriceOnDate, getCurrencySymbol, type SearchResultItem } from '@/services/cryptoService';
+import type { TransactionInput, TransactionType } from '@/services/portfolio';
+import { useCoinSearch } from '@/hooks/use-market-data';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import CoinLogo from './CoinLogo';
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 400;
+
+interface TransactionFormProps {
+  currency: string;
+  onSubmit: (input: TransactionInput) => string | null; // Returns an error message when rejected
+  className?: string;
+}
+
+const inputClassName = 'w-full bg-[#131136] text-white border border-blue-900/40 rounded py-2 px-3 text-sm focus:outline-none focus:border-violet-500';
+
+// Today's date for the date input, in local time
+const today = () => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+};
+
+const TransactionForm = ({ currency, onSubmit, className }: TransactionFormProps) => {
+  const [type, setType] = useState<TransactionType>('buy');
+  const [coin, setCoin] = useState<SearchResultItem | null>(null);
+  const [coinQuery, setCoinQuery] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [price, setPrice] = useState('');
+  const [fee, setFee] = useState('');
+  const [date, setDate] = useState(today);
+  const [error, setError] = useState<string | null>(null);
+  const [isPricing, setIsPricing] = useState(false);
+
+  const debouncedQuery = useDebouncedValue(coinQuery, SEARCH_DEBOUNCE_MS);
+  const { data: results = [], isFetching } = useCoinSearch(coin ? '' : debouncedQuery);
+
+  const chooseCoin = (item: SearchResultItem) => {
+    setCoin(item);
+    setCoinQuery(item.name);
+  };
+
+  // Fill in the market price: the live quote for today, CoinGecko's daily price for earlier dates
+  const fillMarketPrice = async () => {
+    if (!coin) {
+      setError('Choose a coin');
+      return;
+    }
+
+    setIsPricing(true);
+    const marketPrice = await fetchPriceOnDate(coin.id, date, currency);
+    setIsPricing(false);
+
+    if (marketPrice === null) {
+      setError(`No ${coin.symbol.toUpperCase()} price is available for that date`);
+    } else {
+      setError(null);
+      setPrice(String(marketPrice));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!coin) {
+      setError('Choose a coin');
+      return;
+    }
+
+    const rejection = onSubmit({
+      coinId: coin.id,
+      symbol: coin.symbol,
+      name: coin.name,
+      type,
+      quantity: quantity.trim(),
+      price: price.trim(),
+      fee: fee.trim(),
+      // Noon local time keeps the trade on the chosen day in every timezone
+      date: new Date(`${date}T12:00:00`).toISOString(),
+    });
+
+    setError(rejection);
+    if (!rejection) {
+      setQuantity('');
+      setPrice('');
+      setFee('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={cn('space-y-3', className)}>
+      <div className="grid grid-cols-2 gap-1 bg-[#131136] p-0.5 rounded">
+        {(['buy', 'sell'] as TransactionType[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setType(option)}
+            className={cn(
+              'py-1.5 text-sm rounded capitalize',
+              type === option
+                ? option === 'buy' ? 'bg-green-600 text-white' : 'bg-red-600 text-white'
+                : 'text-gray-400 hover:text-white'
+            )}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative">
+        <label className="block text-gray-400 text-xs mb-1">Coin</label>
+        <input
+          type="text"
+          value={coinQuery}
+          onChange={(e) => {
+            setCoin(null);
+            setCoinQuery(e.target.value);
+          }}
+          placeholder="Search by name or symbol"
+          className={inputClassName}
+        />
+        {!coin && debouncedQuery.trim() !== '' && (
+          <div className="absolute z-30 mt-1 w-full max-h-48 overflow-y-auto bg-[#181632] border border-blue-900/40 rounded shadow-lg">
+            {isFetching && results.length === 0 ? (
+              <div className="px-3 py-2 text-xs text-gray-400">Searching...</div>
+            ) : results.length === 0 ? (
+              <div className="px-3 py-2 text-xs text-gray-400">No coins found</div>
+            ) : (
+              results.slice(0, 8).map(item => (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => chooseCoin(item)}
+                  className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-white hover:bg-[#131136]"
+                >
+                  <CoinLogo coinId={item.id} src={item.thumb} className="w-4 h-4 rounded-full" />
+                  <span>{item.name}</span>
+                  <span className="text-gray-400 text-xs">{item.symbol.toUpperCase()}</span>
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-gray-400 text-xs mb-1">Quantity</label>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <div className="flex justify-between items-baseline mb-1">
+            <label className="text-gray-400 text-xs">Price per coin ({getCurrencySymbol(currency)})</label>
+            <button
+              type="button"
+              onClick={fillMarketPrice}
+              disabled={isPricing}
+              className="text-blue-300 hover:text-white text-[10px] disabled:opacity-60"
+            >
+              {isPricing ? 'Loading...' : 'Market price'}
+            </button>
+          </div>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-gray-400 text-xs mb-1">Fee ({getCurrencySymbol(currency)})</label>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={fee}
+            onChange={(e) => setFee(e.target.value)}
+            placeholder="0"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-gray-400 text-xs mb-1">Date</label>
+          <input
+            type="date"
+            value={date}
+            max={today()}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClassName}
+            required
+          />
+        </div>
+      </div>
+
+      {error && <div className="text-red-400 text-xs">{error}</div>}
+
+      <button
+        type="submit"
+        className="w-full bg-violet-600 text-white py-2.5 px-4 rounded-xl text-sm font-medium hover:bg-violet-700"
+      >
+        Add {type === 'buy' ? 'Buy' : 'Sell'}
+      </button>
+    </form>
+  );
+};
+
+export default TransactionForm;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { shortenAddress } from '@/services/contractAddress';
+import { useSolanaWallet, useWalletSummary } from '@/hooks/use-solana-wallet';
+
+interface WalletStatusProps {
+  compact?: boolean; // Smaller text for the floating desktop widget
+  className?: string;
+}
+
+const formatAmount = (value: number, maximumFractionDigits: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits });
+
+// Connection state, SOL and GODD balances and transaction count of the user's Solana wallet
+const WalletStatus = ({ compact, className }: WalletStatusProps) => {
+  const { wallets, wallet, account, status, error, connect, disconnect } = useSolanaWallet();
+  const { data: summary, isPending, isError } = useWalletSummary(account?.address);
+
+  const rowClassName = cn(
+    'flex justify-between items-center',
+    compact ? 'text-xs md:text-sm my-1 md:my-2' : 'text-sm my-2'
+  );
+  const loading = isPending ? '…' : '—';
+
+  return (
+    <div className={className}>
+      <div className={rowClassName}>
+        <span className="text-gray-300 font-medium">Connected:</span>
+        <span className="text-white font-medium">
+          {status === 'connecting' ? 'Connecting…' : wallet ? `Yes · ${wallet.name}` : 'No'}
+        </span>
+      </div>
+
+      {account ? (
+        <>
+          <div className={rowClassName}>
+            <span className="text-gray-300 font-medium">Address:</span>
+            <span className="text-white font-medium" title={account.address}>{shortenAddress(account.address)}</span>
+          </div>
+          <div className={rowClassName}>
+            <span className="text-gray-300 font-medium">Balance:</span>
+            <span className="text-white font-medium text-right">
+              {summary ? `${formatAmount(summary.sol, 4)} SOL` : loading}
+              {summary?.godd != null && <span className="block">{formatAmount(summary.godd, 2)} GODD</span>}
+            </span>
+          </div>
+          <div className={rowClassName}>
+            <span className="text-gray-300 font-medium">Transactions:</span>
+            <span className="text-white font-medium">
+              {summary ? `#${summary.transactionCount.toLocaleString()}${summary.transactionCountCapped ? '+' : ''}` : loading}
+            </span>
+          </div>
+          {isError && <p className="text-red-400 text-xs">Couldn't reach the Solana network</p>}
+          <button onClick={disconnect} className="text-cyan-300 hover:text-white text-xs mt-1">
+            Disconnect
+          </button>
+        </>
+      ) : wallets.length === 0 ? (
+        <p className="text-gray-400 text-xs mt-2">Install Phantom, Solflare or Backpack to connect a Solana wallet.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {wallets.map(candidate => (
+            <button
+              key={candidate.name}
+              onClick={() => connect(candidate)}
+              disabled={status === 'connecting'}
+              className="flex items-center gap-1.5 bg-cyan-600/30 hover:bg-cyan-600/50 text-white text-xs py-1.5 px-2.5 rounded-lg disabled:opacity-60"
+            >
+              <img src={candidate.icon} alt="" className="w-4 h-4 rounded" />
+              Connect {candidate.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-xs mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default WalletStatus;
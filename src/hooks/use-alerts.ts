@@ -0,0 +1,67 @@
+import * as React from "react"
+
+import {
+  clearAlertHistory,
+  createAlert,
+  getAlertState,
+  removeAlert,
+  setAlertEnabled,
+  subscribeToAlerts,
+  type AlertState,
+} from "@/services/priceAlerts"
+
+type NotificationPermissionState = NotificationPermission | "unsupported"
+
+const readPermission = (): NotificationPermissionState =>
+  typeof Notification === "undefined" ? "unsupported" : Notification.permission
+
+// Ask once for browser notifications; alerts still show as toasts if the user declines
+async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (typeof Notification === "undefined") return "unsupported"
+  try {
+    return await Notification.requestPermission()
+  } catch {
+    return Notification.permission
+  }
+}
+
+// Price alerts and their firing history, kept in sync with the alert service
+function useAlerts(coinId?: string) {
+  const [state, setState] = React.useState<AlertState>(getAlertState)
+  const [permission, setPermission] =
+    React.useState<NotificationPermissionState>(readPermission)
+
+  React.useEffect(() => {
+    const unsubscribe = subscribeToAlerts(setState)
+    // Alerts may have fired between the first render and subscribing
+    setState(getAlertState())
+    return unsubscribe
+  }, [])
+
+  const requestPermission = React.useCallback(async () => {
+    setPermission(await requestNotificationPermission())
+  }, [])
+
+  // Optionally narrowed to a single coin, e.g. on its detail page
+  const alerts = React.useMemo(
+    () => (coinId ? state.alerts.filter((alert) => alert.coinId === coinId) : state.alerts),
+    [state.alerts, coinId]
+  )
+  const history = React.useMemo(
+    () => (coinId ? state.history.filter((firing) => firing.coinId === coinId) : state.history),
+    [state.history, coinId]
+  )
+
+  return {
+    alerts,
+    history,
+    create: createAlert,
+    remove: removeAlert,
+    setEnabled: setAlertEnabled,
+    clearHistory: clearAlertHistory,
+    notificationPermission: permission,
+    requestNotificationPermission: requestPermission,
+  }
+}
+
+export { useAlerts }
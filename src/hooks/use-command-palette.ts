@@ -0,0 +1,40 @@
+import * as React from "react"
+
+const listeners: Array<(open: boolean) => void> = []
+
+let memoryOpen = false
+
+function setPaletteOpen(open: boolean) {
+  memoryOpen = open
+  listeners.forEach((listener) => {
+    listener(memoryOpen)
+  })
+}
+
+function togglePalette() {
+  setPaletteOpen(!memoryOpen)
+}
+
+// Whether the ⌘K command palette is showing, so any component can open it
+function useCommandPalette() {
+  const [open, setOpen] = React.useState<boolean>(memoryOpen)
+
+  React.useEffect(() => {
+    listeners.push(setOpen)
+    setOpen(memoryOpen)
+    return () => {
+      const index = listeners.indexOf(setOpen)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    open,
+    setOpen: setPaletteOpen,
+    toggle: togglePalette,
+  }
+}
+
+export { useCommandPalette }
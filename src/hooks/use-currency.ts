@@ -0,0 +1,35 @@
+import * as React from "react"
+
+// localStorage key for the selected quote currency
+const CURRENCY_STORAGE_KEY = "godsdollar.currency"
+
+const listeners: Array<(currency: string) => void> = []
+
+let memoryCurrency: string = localStorage.getItem(CURRENCY_STORAGE_KEY) || "usd"
+
+function setSharedCurrency(currency: string) {
+  memoryCurrency = currency
+  localStorage.setItem(CURRENCY_STORAGE_KEY, currency)
+  listeners.forEach((listener) => {
+    listener(memoryCurrency)
+  })
+}
+
+// Quote currency shared by every page and remembered across visits
+export function useCurrency(): [string, (currency: string) => void] {
+  const [currency, setCurrencyState] = React.useState<string>(memoryCurrency)
+
+  React.useEffect(() => {
+    listeners.push(setCurrencyState)
+    // Another component may have changed it between the first render and subscribing
+    setCurrencyState(memoryCurrency)
+    return () => {
+      const index = listeners.indexOf(setCurrencyState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return [currency, setSharedCurrency]
+}
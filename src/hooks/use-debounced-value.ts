@@ -0,0 +1,13 @@
+import * as React from "react"
+
+// The value once it has stopped changing for delayMs, e.g. search input after a pause in typing
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = React.useState<T>(value)
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs)
+    return () => clearTimeout(timer)
+  }, [value, delayMs])
+
+  return debounced
+}
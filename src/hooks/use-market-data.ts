@@ -0,0 +1,330 @@
+import {
+  keepPreviousData,
+  useQueries,
+  useQuery,
+  type QueryClient,
+} from "@tanstack/react-query"
+
+import {
+  CACHE_TTL_MS,
+  chartTtl,
+  fetchCoinData,
+  fetchCoinDetail,
+  fetchCoinsByIds,
+  fetchMarketChart,
+  fetchOhlcCandles,
+  fetchTopCoins,
+  fetchTrendingCoins,
+  isAbortError,
+  isRateLimited,
+  resolveContractAddress,
+  searchCryptocurrencies,
+  withAlertsChecked,
+  type CoinData,
+  type MarketChartDays,
+} from "@/services/cryptoService"
+import { getContractPlatform } from "@/services/contractAddress"
+import { mergePriceTicks, type PriceTick } from "@/services/priceStream"
+import { fetchBondingCurve } from "@/services/pumpFun"
+import { getSolanaRpcConfig } from "@/services/solanaRpc"
+import { fetchTokenStats } from "@/services/tokenStats"
+import { resolveTokenMetadata } from "@/services/tokenMetadata"
+
+const MAX_RETRIES = 2
+const MAX_RETRY_DELAY_MS = 30 * 1000
+
+// Polling slows down this much while CoinGecko is rate limiting us
+const RATE_LIMITED_INTERVAL_MULTIPLIER = 4
+
+const TOP_COINS_INTERVAL_MS = 60 * 1000
+const COIN_INTERVAL_MS = 60 * 1000
+
+// Query keys for market data; everything lives under "market" so it can be invalidated at once
+export const marketDataKeys = {
+  all: ["market"] as const,
+  topCoins: (currency: string, limit: number) =>
+    [...marketDataKeys.all, "topCoins", currency, limit] as const,
+  coins: () => [...marketDataKeys.all, "coin"] as const,
+  coin: (coinId: string, currency: string) =>
+    [...marketDataKeys.coins(), coinId, currency] as const,
+  coinDetail: (coinId: string, currency: string) =>
+    [...marketDataKeys.all, "coinDetail", coinId, currency] as const,
+  coinsByIds: (coinIds: string[], currency: string) =>
+    [...marketDataKeys.all, "coinsByIds", currency, coinIds.join(",")] as const,
+  trending: () => [...marketDataKeys.all, "trending"] as const,
+  search: (query: string) =>
+    [...marketDataKeys.all, "search", query.trim().toLowerCase()] as const,
+  marketChart: (coinId: string, currency: string, days: MarketChartDays) =>
+    [...marketDataKeys.all, "marketChart", coinId, currency, days] as const,
+  ohlc: (coinId: string, currency: string, days: MarketChartDays) =>
+    [...marketDataKeys.all, "ohlc", coinId, currency, days] as const,
+  contract: (platform: string, address: string) =>
+    [...marketDataKeys.all, "contract", platform, address] as const,
+  tokenStats: (endpoint: string, mint: string) =>
+    [...marketDataKeys.all, "tokenStats", endpoint, mint] as const,
+  bondingCurve: (endpoint: string, mint: string) =>
+    [...marketDataKeys.all, "bondingCurve", endpoint, mint] as const,
+  tokenMetadata: (endpoint: string, mint: string) =>
+    [...marketDataKeys.all, "tokenMetadata", endpoint, mint] as const,
+}
+
+export interface MarketQueryOptions {
+  enabled?: boolean
+  // A function is re-read each time the next poll is scheduled
+  refetchInterval?: number | (() => number)
+}
+
+// The scheduler already retries 429s, so queries only retry other failures and never while rate limited
+const retry = (failureCount: number, error: unknown) => {
+  if (isAbortError(error) || isRateLimited()) return false
+  return failureCount < MAX_RETRIES
+}
+
+const retryDelay = (attempt: number) =>
+  Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS)
+
+// Poll less often while rate limited so background refetches don't prolong the limit
+const pollInterval = (interval: number | (() => number)) => () => {
+  const ms = typeof interval === "function" ? interval() : interval
+  return isRateLimited() ? ms * RATE_LIMITED_INTERVAL_MULTIPLIER : ms
+}
+
+const sharedOptions = {
+  retry,
+  retryDelay,
+  refetchOnWindowFocus: true,
+  refetchIntervalInBackground: false,
+}
+
+export function useTopCoins(
+  currency: string,
+  limit: number,
+  options: MarketQueryOptions = {}
+) {
+  return useQuery({
+    ...sharedOptions,
+    queryKey: marketDataKeys.topCoins(currency, limit),
+    queryFn: ({ signal }) => fetchTopCoins(currency, limit, signal),
+    enabled: options.enabled ?? true,
+    refetchInterval: pollInterval(options.refetchInterval ?? TOP_COINS_INTERVAL_MS),
+  })
+}
+
+export function useCoin(
+  coinId: string | null | undefined,
+  currency: string,
+  options: MarketQueryOptions = {}
+) {
+  return useQuery({
+    ...sharedOptions,
+    queryKey: marketDataKeys.coin(coinId ?? "", currency),
+    queryFn: ({ signal }) => fetchCoinData(coinId as string, currency, signal),
+    enabled: !!coinId && (options.enabled ?? true),
+    refetchInterval: pollInterval(options.refetchInterval ?? COIN_INTERVAL_MS),
+  })
+}
+
+// Full profile for the coin detail page
+export function useCoinDetail(
+  coinId: string | undefined,
+  currency: string,
+  options: MarketQueryOptions = {}
+) {
+  return useQuery({
+    ...sharedOptions,
+    queryKey: marketDataKeys.coinDetail(coinId ?? "", currency),
+    queryFn: ({ signal }) => fetchCoinDetail(coinId as string, currency, signal),
+    enabled: !!coinId && (options.enabled ?? true),
+    refetchInterval: pollInterval(options.refetchInterval ?? COIN_INTERVAL_MS),
+  })
+}
+
+// Quotes for several coins, sharing cache entries with useCoin
+export function useCoins(coinIds: string[], currency: string) {
+  return useQueries({
+    queries: coinIds.map((coinId) => ({
+      ...sharedOptions,
+      queryKey: marketDataKeys.coin(coinId, currency),
+      queryFn: ({ signal }: { signal: AbortSignal }) =>
+        fetchCoinData(coinId, currency, signal),
+      refetchInterval: pollInterval(COIN_INTERVAL_MS),
+    })),
+  })
+}
+
+// Quotes for a set of coins, e.g. the watchlist, fetched in one batched request
+export function useCoinsByIds(
+  coinIds: string[],
+  currency: string,
+  options: MarketQueryOptions = {}
+) {
+  return useQuery({
+    ...sharedOptions,
+    queryKey: marketDataKeys.coinsByIds(coinIds, currency),
+    queryFn: ({ signal }) => fetchCoinsByIds(coinIds, currency, signal),
+    enabled: coinIds.length > 0 && (options.enabled ?? true),
+    refetchInterval: pollInterval(options.refetchInterval ?? TOP_COINS_INTERVAL_MS),
+    // Adding or removing one coin changes the key, so keep showing the last list meanwhile
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useTrending(options: MarketQueryOptions = {}) {
+  return useQuery({
+    ...sharedOptions,
+    queryKey: marketDataKeys.trending(),
+    queryFn: ({ signal }) => fetchTrendingCoins(signal),
+    enabled: options.enabled ?? true,
+    refetchInterval: pollInterval(options.refetchInterval ?? CACHE_TTL_MS.trending),
+  })
+}
+
+export function useCoinSearch(query: string, options: MarketQueryOptions = {}) {
+  const trimmed = query.trim()
+
+  return useQuery({
+    ...sharedOptions,
+    queryKey: marketDataKeys.search(trimmed),
+    queryFn: ({ signal }) => searchCryptocurrencies(trimmed, signal),
+    enabled: trimmed !== "" && (options.enabled ?? true),
+    staleTime: CACHE_TTL_MS.search,
+    refetchOnWindowFocus: false,
+    // Searches are answered from the offline coin index, so don't pause them while offline
+    networkMode: "always",
+  })
+}
+
+// A token address on one platform: its CoinGecko listing, or the token as read from the chain
+export function useContractToken(
+  platform: string | undefined,
+  address: string | undefined,
+  options: MarketQueryOptions = {}
+) {
+  const chain = platform ? getContractPlatform(platform)?.chain : undefined
+
+  return useQuery({
+    ...sharedOptions,
+    queryKey: marketDataKeys.contract(platform ?? "", address ?? ""),
+    queryFn: ({ signal }) =>
+      resolveContractAddress({ chain, address }, platform, signal),
+    enabled: !!chain && !!address && (options.enabled ?? true),
+    // Answers read from the chain while CoinGecko was failing are checked again until it responds
+    staleTime: (query) => (query.state.data?.unverified ? 0 : CACHE_TTL_MS.search),
+    refetchInterval: (query) =>
+      query.state.data?.unverified ? pollInterval(COIN_INTERVAL_MS)() : false,
+    refetchOnWindowFocus: false,
+  })
+}
+
+// Supply, authorities and holders of an SPL token, polled alongside the market data
+export function useTokenStats(mint: string, options: MarketQueryOptions = {}) {
+  const { endpoint } = getSolanaRpcConfig()
+
+  return useQuery({
+    ...sharedOptions,
+    queryKey: marketDataKeys.tokenStats(endpoint, mint),
+    queryFn: ({ signal }) => fetchTokenStats(mint, signal),
+    enabled: !!mint && (options.enabled ?? true),
+    refetchInterval: pollInterval(options.refetchInterval ?? COIN_INTERVAL_MS),
+  })
+}
+
+// pump.fun bonding curve of a mint: progress, reserves and implied price
+export function useBondingCurve(mint: string, options: MarketQueryOptions = {}) {
+  const { endpoint } = getSolanaRpcConfig()
+
+  return useQuery({
+    ...sharedOptions,
+    queryKey: marketDataKeys.bondingCurve(endpoint, mint),
+    queryFn: ({ signal }) => fetchBondingCurve(mint, signal),
+    enabled: !!mint && (options.enabled ?? true),
+    refetchInterval: pollInterval(options.refetchInterval ?? COIN_INTERVAL_MS),
+  })
+}
+
+// Metaplex name, symbol and logo of an SPL mint; the service remembers results, so this rarely refetches
+export function useTokenMetadata(mint: string | undefined, options: MarketQueryOptions = {}) {
+  const { endpoint } = getSolanaRpcConfig()
+
+  return useQuery({
+    ...sharedOptions,
+    queryKey: marketDataKeys.tokenMetadata(endpoint, mint ?? ""),
+    queryFn: () => resolveTokenMetadata(mint as string),
+    enabled: !!mint && (options.enabled ?? true),
+    staleTime: CACHE_TTL_MS.search,
+    refetchOnWindowFocus: false,
+  })
+}
+
+export function useMarketChart(
+  coinId: string,
+  currency: string,
+  days: MarketChartDays,
+  options: MarketQueryOptions = {}
+) {
+  return useQuery({
+    ...sharedOptions,
+    queryKey: marketDataKeys.marketChart(coinId, currency, days),
+    queryFn: ({ signal }) => fetchMarketChart(coinId, currency, days, signal),
+    enabled: !!coinId && (options.enabled ?? true),
+    refetchInterval: pollInterval(options.refetchInterval ?? chartTtl(days)),
+  })
+}
+
+export function useOhlcCandles(
+  coinId: string,
+  currency: string,
+  days: MarketChartDays,
+  options: MarketQueryOptions = {}
+) {
+  return useQuery({
+    ...sharedOptions,
+    queryKey: marketDataKeys.ohlc(coinId, currency, days),
+    queryFn: ({ signal }) => fetchOhlcCandles(coinId, currency, days, signal),
+    enabled: !!coinId && (options.enabled ?? true),
+    refetchInterval: pollInterval(options.refetchInterval ?? chartTtl(days)),
+  })
+}
+
+// Write live ticks into every cached quote in the tick's currency
+export function applyPriceTicks(queryClient: QueryClient, ticks: PriceTick[]) {
+  const byCurrency = new Map<string, PriceTick[]>()
+  for (const tick of ticks) {
+    byCurrency.set(tick.currency, [...(byCurrency.get(tick.currency) ?? []), tick])
+  }
+
+  byCurrency.forEach((currencyTicks, currency) => {
+    const tickedIds = new Set(currencyTicks.map((tick) => tick.id))
+    const ticked = new Map<string, CoinData>()
+    const merge = (coins: CoinData[]) => {
+      const merged = mergePriceTicks(coins, currencyTicks)
+      merged.forEach((coin) => {
+        if (tickedIds.has(coin.id)) ticked.set(coin.id, coin)
+      })
+      return merged
+    }
+
+    for (const list of ["topCoins", "coinsByIds"]) {
+      queryClient.setQueriesData<CoinData[]>(
+        {
+          queryKey: [...marketDataKeys.all, list, currency],
+        },
+        (coins) => (coins ? merge(coins) : coins)
+      )
+    }
+    queryClient.setQueriesData<CoinData | null>(
+      {
+        queryKey: marketDataKeys.coins(),
+        predicate: (query) => query.queryKey[3] === currency,
+      },
+      (coin) => (coin ? merge([coin])[0] : coin)
+    )
+
+    // Ticks are price refreshes too, quoted as of the latest tick
+    withAlertsChecked(
+      [...ticked.values()],
+      currency,
+      Math.max(...currencyTicks.map((tick) => tick.timestamp))
+    )
+  })
+}
@@ -0,0 +1,150 @@
+import * as React from "react"
+
+import {
+  calculatePortfolio,
+  validateTransaction,
+  type Transaction,
+  type TransactionInput,
+} from "@/services/portfolio"
+import { LOT_METHODS, type LotMethod } from "@/services/lotAccounting"
+import type { CoinData } from "@/services/cryptoService"
+import { useCoinsByIds } from "@/hooks/use-market-data"
+
+// localStorage key for the recorded transactions and the portfolio currency
+const PORTFOLIO_STORAGE_KEY = "godsdollar.portfolio"
+
+interface PortfolioState {
+  currency: string // Transactions are recorded and valued in this currency
+  method: LotMethod // How sells are matched against earlier buys
+  transactions: Transaction[]
+}
+
+const listeners: Array<(state: PortfolioState) => void> = []
+
+const readPortfolio = (): PortfolioState => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PORTFOLIO_STORAGE_KEY) || "null")
+    if (stored && Array.isArray(stored.transactions)) {
+      return {
+        currency: typeof stored.currency === "string" ? stored.currency : "usd",
+        method: stored.method in LOT_METHODS ? stored.method : "fifo",
+        // Older portfolios stored amounts as numbers; keep everything as exact decimal strings
+        transactions: stored.transactions.map((transaction: Transaction) => ({
+          ...transaction,
+          quantity: String(transaction.quantity),
+          price: String(transaction.price),
+          fee: String(transaction.fee ?? "0"),
+        })),
+      }
+    }
+  } catch {
+    // Fall through to an empty portfolio
+  }
+  return { currency: "usd", method: "fifo", transactions: [] }
+}
+
+let memoryState: PortfolioState = readPortfolio()
+
+function setPortfolio(state: PortfolioState, persist = true) {
+  memoryState = state
+  if (persist) {
+    try {
+      localStorage.setItem(PORTFOLIO_STORAGE_KEY, JSON.stringify(state))
+    } catch (error) {
+      console.warn("Could not save portfolio", error)
+    }
+  }
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+// Pick up changes made in other tabs
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (event) => {
+    if (event.key === PORTFOLIO_STORAGE_KEY) {
+      setPortfolio(readPortfolio(), false)
+    }
+  })
+}
+
+function genId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// Record a transaction; returns an error message instead if it is invalid
+function addTransaction(input: TransactionInput): string | null {
+  const error = validateTransaction(memoryState.transactions, input)
+  if (error) return error
+
+  setPortfolio({
+    ...memoryState,
+    transactions: [
+      ...memoryState.transactions,
+      { ...input, fee: input.fee === "" ? "0" : input.fee, id: genId() },
+    ],
+  })
+  return null
+}
+
+function removeTransaction(id: string) {
+  setPortfolio({
+    ...memoryState,
+    transactions: memoryState.transactions.filter((transaction) => transaction.id !== id),
+  })
+}
+
+// Prices are entered in the portfolio currency, so it can only change while the portfolio is empty
+function setPortfolioCurrency(currency: string) {
+  if (memoryState.transactions.length === 0) {
+    setPortfolio({ ...memoryState, currency })
+  }
+}
+
+function setLotMethod(method: LotMethod) {
+  setPortfolio({ ...memoryState, method })
+}
+
+// Recorded transactions plus holdings and P&L valued at live prices
+function usePortfolio() {
+  const [state, setState] = React.useState<PortfolioState>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    setState(memoryState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  const coinIds = React.useMemo(
+    () => [...new Set(state.transactions.map((transaction) => transaction.coinId))],
+    [state.transactions]
+  )
+  const quotesQuery = useCoinsByIds(coinIds, state.currency)
+
+  const summary = React.useMemo(() => {
+    const prices: Record<string, CoinData> = {}
+    for (const coin of quotesQuery.data ?? []) {
+      prices[coin.id] = coin
+    }
+    return calculatePortfolio(state.transactions, prices, state.method)
+  }, [state.transactions, state.method, quotesQuery.data])
+
+  return {
+    currency: state.currency,
+    method: state.method,
+    transactions: state.transactions,
+    summary,
+    isPending: coinIds.length > 0 && quotesQuery.isPending,
+    addTransaction,
+    removeTransaction,
+    setCurrency: setPortfolioCurrency,
+    setMethod: setLotMethod,
+  }
+}
+
+export { usePortfolio }
@@ -0,0 +1,44 @@
+import * as React from "react"
+
+import {
+  PRICE_STREAM_URL,
+  PriceStream,
+  type PriceTick,
+  type StreamStatus,
+} from "@/services/priceStream"
+
+// Subscribe to live ticker updates for the given coins.
+// Returns the stream status so callers can poll while the socket is not open.
+export function usePriceStream(
+  ids: string[],
+  currency: string,
+  onTicks: (ticks: PriceTick[]) => void
+): StreamStatus {
+  const [status, setStatus] = React.useState<StreamStatus>("idle")
+  const streamRef = React.useRef<PriceStream | null>(null)
+  const onTicksRef = React.useRef(onTicks)
+  onTicksRef.current = onTicks
+
+  React.useEffect(() => {
+    const stream = new PriceStream(PRICE_STREAM_URL, {
+      onTicks: (ticks) => onTicksRef.current(ticks),
+      onStatusChange: setStatus,
+    })
+    streamRef.current = stream
+    stream.start()
+
+    return () => {
+      stream.stop()
+      streamRef.current = null
+    }
+  }, [])
+
+  // Only resubscribe when the set of coins actually changes
+  const idsKey = ids.join(",")
+
+  React.useEffect(() => {
+    streamRef.current?.subscribe(idsKey ? idsKey.split(",") : [], currency)
+  }, [idsKey, currency])
+
+  return status
+}
@@ -0,0 +1,87 @@
+import * as React from "react"
+
+import type { SearchResultItem } from "@/services/cryptoService"
+
+// localStorage key for the coins recently opened from search
+const RECENT_SEARCHES_STORAGE_KEY = "godsdollar.recentSearches"
+
+// Only this many of the most recent coins are kept
+const MAX_RECENT_SEARCHES = 6
+
+const listeners: Array<(recent: SearchResultItem[]) => void> = []
+
+const readRecentSearches = (): SearchResultItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_SEARCHES_STORAGE_KEY) || "[]")
+    return Array.isArray(stored)
+      ? stored.filter((item): item is SearchResultItem => typeof item?.id === "string")
+      : []
+  } catch {
+    return []
+  }
+}
+
+let memoryRecent: SearchResultItem[] = readRecentSearches()
+
+function setRecentSearches(recent: SearchResultItem[], persist = true) {
+  memoryRecent = recent
+  if (persist) {
+    try {
+      localStorage.setItem(RECENT_SEARCHES_STORAGE_KEY, JSON.stringify(recent))
+    } catch (error) {
+      console.warn("Could not save recent searches", error)
+    }
+  }
+  listeners.forEach((listener) => {
+    listener(memoryRecent)
+  })
+}
+
+// Pick up changes made in other tabs
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (event) => {
+    if (event.key === RECENT_SEARCHES_STORAGE_KEY) {
+      setRecentSearches(readRecentSearches(), false)
+    }
+  })
+}
+
+// Move the coin to the front, dropping the oldest beyond the limit
+function addRecentSearch(item: SearchResultItem) {
+  const { id, name, symbol, thumb, market_cap_rank, contract } = item
+  setRecentSearches(
+    [
+      // Keep the contract so unlisted tokens reopen on their token page
+      { id, name, symbol, thumb, market_cap_rank, contract },
+      ...memoryRecent.filter((recent) => recent.id !== id),
+    ].slice(0, MAX_RECENT_SEARCHES)
+  )
+}
+
+function clearRecentSearches() {
+  setRecentSearches([])
+}
+
+// Coins recently picked from search, newest first
+function useRecentSearches() {
+  const [recent, setState] = React.useState<SearchResultItem[]>(memoryRecent)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    setState(memoryRecent)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    recent,
+    add: addRecentSearch,
+    clear: clearRecentSearches,
+  }
+}
+
+export { useRecentSearches }
@@ -0,0 +1,128 @@
+import * as React from "react"
+import { useQuery } from "@tanstack/react-query"
+
+import {
+  connectWallet,
+  disconnectWallet,
+  getLastWalletName,
+  getSolanaWallets,
+  onAccountChange,
+  subscribeToWallets,
+  type StandardWallet,
+  type WalletAccount,
+} from "@/services/solanaWallet"
+import { fetchWalletSummary } from "@/services/solanaAccount"
+import { getSolanaRpcConfig } from "@/services/solanaRpc"
+
+// Balances and transaction count refresh this often while a wallet is connected
+const WALLET_REFRESH_MS = 30 * 1000
+
+type WalletStatus = "disconnected" | "connecting" | "connected"
+
+interface WalletState {
+  wallets: StandardWallet[] // Installed wallets that support Solana
+  wallet: StandardWallet | null
+  account: WalletAccount | null
+  status: WalletStatus
+  error: string | null
+}
+
+const listeners: Array<(state: WalletState) => void> = []
+
+let memoryState: WalletState = {
+  wallets: [],
+  wallet: null,
+  account: null,
+  status: "disconnected",
+  error: null,
+}
+
+// Stops following account changes of the connected wallet
+let stopAccountEvents: (() => void) | null = null
+
+function setWalletState(update: Partial<WalletState>) {
+  memoryState = { ...memoryState, ...update }
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+async function connect(wallet: StandardWallet, silent = false) {
+  setWalletState({ status: "connecting", error: null })
+  try {
+    const account = await connectWallet(wallet, silent)
+    if (!account) {
+      setWalletState({ status: "disconnected", error: silent ? null : `${wallet.name} has no Solana account` })
+      return
+    }
+
+    stopAccountEvents?.()
+    stopAccountEvents = onAccountChange(wallet, (nextAccount) => {
+      setWalletState(nextAccount
+        ? { account: nextAccount }
+        : { wallet: null, account: null, status: "disconnected" })
+    })
+    setWalletState({ wallet, account, status: "connected" })
+  } catch (error) {
+    // A silent reconnect fails quietly when the site is no longer approved
+    console.warn(`Could not connect to ${wallet.name}`, error)
+    setWalletState({ status: "disconnected", error: silent ? null : `Connection to ${wallet.name} was declined` })
+  }
+}
+
+async function disconnect() {
+  const { wallet } = memoryState
+  stopAccountEvents?.()
+  stopAccountEvents = null
+  setWalletState({ wallet: null, account: null, status: "disconnected", error: null })
+  if (wallet) {
+    await disconnectWallet(wallet)
+  }
+}
+
+// Wallets register whenever their extension loads; reconnect to last visit's wallet as soon as it appears
+function handleWallets(wallets: StandardWallet[]) {
+  setWalletState({ wallets })
+  const lastWallet = wallets.find((wallet) => wallet.name === getLastWalletName())
+  if (lastWallet && memoryState.status === "disconnected") {
+    void connect(lastWallet, true)
+  }
+}
+
+subscribeToWallets(handleWallets)
+handleWallets(getSolanaWallets())
+
+// Connected Solana wallet, shared by every component
+function useSolanaWallet() {
+  const [state, setState] = React.useState<WalletState>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    setState(memoryState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    ...state,
+    connect,
+    disconnect,
+  }
+}
+
+// SOL and GODD balances plus transaction count of an address on the configured cluster
+function useWalletSummary(address: string | undefined) {
+  return useQuery({
+    queryKey: ["wallet", getSolanaRpcConfig().endpoint, address ?? ""],
+    queryFn: ({ signal }) => fetchWalletSummary(address as string, signal),
+    enabled: !!address,
+    refetchInterval: WALLET_REFRESH_MS,
+    refetchIntervalInBackground: false,
+  })
+}
+
+export { useSolanaWallet, useWalletSummary }
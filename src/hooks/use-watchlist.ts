@@ -0,0 +1,88 @@
+import * as React from "react"
+
+// localStorage key for the starred coin IDs
+const WATCHLIST_STORAGE_KEY = "godsdollar.watchlist"
+
+const listeners: Array<(watchlist: string[]) => void> = []
+
+const readWatchlist = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(WATCHLIST_STORAGE_KEY) || "[]")
+    return Array.isArray(stored)
+      ? stored.filter((id): id is string => typeof id === "string")
+      : []
+  } catch {
+    return []
+  }
+}
+
+let memoryWatchlist: string[] = readWatchlist()
+
+function setWatchlist(watchlist: string[], persist = true) {
+  memoryWatchlist = watchlist
+  if (persist) {
+    localStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(watchlist))
+  }
+  listeners.forEach((listener) => {
+    listener(memoryWatchlist)
+  })
+}
+
+// Pick up changes made in other tabs
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (event) => {
+    if (event.key === WATCHLIST_STORAGE_KEY) {
+      setWatchlist(readWatchlist(), false)
+    }
+  })
+}
+
+function addToWatchlist(coinId: string) {
+  if (!memoryWatchlist.includes(coinId)) {
+    setWatchlist([...memoryWatchlist, coinId])
+  }
+}
+
+function removeFromWatchlist(coinId: string) {
+  setWatchlist(memoryWatchlist.filter((id) => id !== coinId))
+}
+
+function toggleWatchlist(coinId: string) {
+  if (memoryWatchlist.includes(coinId)) {
+    removeFromWatchlist(coinId)
+  } else {
+    addToWatchlist(coinId)
+  }
+}
+
+// Starred coin IDs in the order they were added, shared by every component and remembered across visits
+function useWatchlist() {
+  const [watchlist, setState] = React.useState<string[]>(memoryWatchlist)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    // The list may have changed between the first render and subscribing
+    setState(memoryWatchlist)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  const isWatched = React.useCallback(
+    (coinId: string) => watchlist.includes(coinId),
+    [watchlist]
+  )
+
+  return {
+    watchlist,
+    isWatched,
+    add: addToWatchlist,
+    remove: removeFromWatchlist,
+    toggle: toggleWatchlist,
+  }
+}
+
+export { useWatchlist }
@@ -0,0 +1,293 @@
+import React, { useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  formatCompactNumber,
+  formatCurrencyCompact,
+  formatDate,
+  formatPrice,
+  formatPriceChange,
+  openMoonPayWidget,
+  type CoinDetail
+} from '@/services/cryptoService';
+import { useCoinDetail } from '@/hooks/use-market-data';
+import { useCurrency } from '@/hooks/use-currency';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import PriceChart from '@/components/PriceChart';
+import CurrencySelector from '@/components/CurrencySelector';
+import PriceAlertsPanel from '@/components/PriceAlertsPanel';
+import CoinLogo from '@/components/CoinLogo';
+
+const cardClassName = 'bg-[#181632]/80 border border-blue-900/30 backdrop-blur-md p-5 rounded-lg shadow-lg';
+
+interface StatRowProps {
+  label: string;
+  value: React.ReactNode;
+  className?: string;
+}
+
+const StatRow = ({ label, value, className }: StatRowProps) => (
+  <div className="flex justify-between items-center py-1.5">
+    <span className="text-gray-400 text-sm">{label}</span>
+    <span className={cn('text-white text-sm font-medium', className)}>{value}</span>
+  </div>
+);
+
+// Show a link as its host name, e.g. https://bitcoin.org/en/ -> bitcoin.org
+const linkLabel = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// How far the current price is from an extreme, as a percentage of that extreme
+const distanceFrom = (price: number, extreme: number | null): number | null => {
+  return extreme ? ((price - extreme) / extreme) * 100 : null;
+};
+
+const SupplySection = ({ coin }: { coin: CoinDetail }) => {
+  const symbol = coin.symbol.toUpperCase();
+  const formatSupply = (value: number | null) => value === null ? '∞' : `${formatCompactNumber(value)} ${symbol}`;
+  const circulatingShare = coin.circulating_supply && coin.max_supply
+    ? Math.min(100, (coin.circulating_supply / coin.max_supply) * 100)
+    : null;
+
+  return (
+    <div className={cardClassName}>
+      <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Supply</h3>
+      <StatRow label="Circulating" value={coin.circulating_supply === null ? '—' : formatSupply(coin.circulating_supply)} />
+      <StatRow label="Total" value={coin.total_supply === null ? '—' : formatSupply(coin.total_supply)} />
+      <StatRow label="Max" value={formatSupply(coin.max_supply)} />
+      {circulatingShare !== null && (
+        <div className="mt-3">
+          <div className="h-2 bg-gray-700/40 rounded-full overflow-hidden">
+            <div className="h-full bg-violet-600" style={{ width: `${circulatingShare}%` }}></div>
+          </div>
+          <div className="text-xs text-gray-400 mt-1">{circulatingShare.toFixed(1)}% of max supply in circulation</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ExtremesSection = ({ coin, currency }: { coin: CoinDetail; currency: string }) => {
+  const fromAth = distanceFrom(coin.current_price, coin.ath);
+  const fromAtl = distanceFrom(coin.current_price, coin.atl);
+
+  return (
+    <div className={cardClassName}>
+      <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">All-Time High / Low</h3>
+      <StatRow label="All-time high" value={coin.ath === null ? '—' : formatPrice(coin.ath, currency)} />
+      <StatRow label="Reached" value={formatDate(coin.ath_date)} />
+      {fromAth !== null && (
+        <StatRow label="From ATH" value={formatPriceChange(fromAth)} className="text-red-400" />
+      )}
+      <StatRow label="All-time low" value={coin.atl === null ? '—' : formatPrice(coin.atl, currency)} />
+      <StatRow label="Reached" value={formatDate(coin.atl_date)} />
+      {fromAtl !== null && (
+        <StatRow label="From ATL" value={formatPriceChange(fromAtl)} className="text-green-400" />
+      )}
+    </div>
+  );
+};
+
+const PerformanceSection = ({ coin }: { coin: CoinDetail }) => {
+  const changes: [string, number | null][] = [
+    ['24 hours', coin.price_change_percentage_24h],
+    ['7 days', coin.price_change_percentage_7d],
+    ['30 days', coin.price_change_percentage_30d],
+    ['1 year', coin.price_change_percentage_1y],
+  ];
+
+  return (
+    <div className={cardClassName}>
+      <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Performance</h3>
+      {changes.map(([label, change]) => (
+        <StatRow
+          key={label}
+          label={label}
+          value={change === null ? '—' : formatPriceChange(change)}
+          className={change === null ? undefined : change >= 0 ? 'text-green-400' : 'text-red-400'}
+        />
+      ))}
+    </div>
+  );
+};
+
+const TokenSection = ({ coin }: { coin: CoinDetail }) => {
+  if (coin.categories.length === 0 && coin.platforms.length === 0) return null;
+
+  return (
+    <div className={cardClassName}>
+      <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Categories & Contracts</h3>
+      {coin.categories.length > 0 && (
+        <div className="flex flex-wrap gap-2 py-1.5">
+          {coin.categories.map(category => (
+            <span key={category} className="text-xs bg-violet-600/30 text-violet-200 rounded px-2 py-0.5">{category}</span>
+          ))}
+        </div>
+      )}
+      {coin.platforms.map(({ platform, contract_address }) => (
+        <div key={platform} className="py-1.5">
+          <div className="text-gray-400 text-sm capitalize">{platform.replace(/-/g, ' ')}</div>
+          <div className="text-white text-xs font-mono break-all">{contract_address}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const LinksSection = ({ coin }: { coin: CoinDetail }) => {
+  const groups = [
+    { label: 'Website', urls: coin.links.homepage },
+    { label: 'Explorers', urls: coin.links.blockchain_site },
+    { label: 'Community', urls: [coin.links.twitter, coin.links.reddit, coin.links.telegram, ...coin.links.chat].filter(Boolean) as string[] },
+    { label: 'Source code', urls: coin.links.repos },
+  ].filter(group => group.urls.length > 0);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className={cardClassName}>
+      <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Links</h3>
+      {groups.map(group => (
+        <div key={group.label} className="py-1.5">
+          <div className="text-gray-400 text-sm mb-1">{group.label}</div>
+          <div className="flex flex-wrap gap-2">
+            {group.urls.map(url => (
+              <a
+                key={url}
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs bg-[#131136] border border-blue-900/40 rounded px-2 py-1 text-blue-300 hover:text-white"
+              >
+                {linkLabel(url)}
+              </a>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const CoinPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const [currency, setCurrency] = useCurrency();
+  const { data: coin, isPending } = useCoinDetail(id, currency);
+  const { isWatched, toggle } = useWatchlist();
+
+  useEffect(() => {
+    if (coin) {
+      document.title = `${coin.name} (${coin.symbol.toUpperCase()}) | Gods Dollar`;
+    }
+  }, [coin]);
+
+  return (
+    <div className="min-h-screen bg-[#141529] text-white">
+      <div className="max-w-5xl mx-auto px-4 py-6 md:py-10">
+        <div className="flex items-center justify-between mb-6">
+          <Link to="/" className="text-blue-300 hover:text-white text-sm">← Back to market</Link>
+          <CurrencySelector value={currency} onChange={setCurrency} />
+        </div>
+
+        {isPending ? (
+          <div className="space-y-4">
+            <div className="h-16 rounded-lg bg-gray-700/30 animate-pulse"></div>
+            <div className="h-64 rounded-lg bg-gray-700/30 animate-pulse"></div>
+          </div>
+        ) : !coin ? (
+          <div className={cn(cardClassName, 'text-center')}>
+            <p className="text-gray-300 mb-4">We couldn't load details for "{id}".</p>
+            <Link to="/" className="text-blue-300 hover:text-white text-sm">Return to the market overview</Link>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-4 mb-6">
+              <CoinLogo coinId={coin.id} src={coin.image} alt={coin.name} className="w-12 h-12 rounded-full" />
+              <div>
+                <h1 className="flex items-center gap-2 text-2xl md:text-3xl font-bold">
+                  {coin.name} <span className="text-gray-400 text-lg">{coin.symbol.toUpperCase()}</span>
+                  <button
+                    onClick={() => toggle(coin.id)}
+                    aria-label={isWatched(coin.id) ? 'Remove from watchlist' : 'Add to watchlist'}
+                    className="text-gray-500 hover:text-yellow-400"
+                  >
+                    <Star className={cn('w-5 h-5', isWatched(coin.id) && 'fill-yellow-400 text-yellow-400')} />
+                  </button>
+                </h1>
+                {coin.market_cap_rank > 0 && (
+                  <span className="text-xs bg-violet-600/30 text-violet-200 rounded px-2 py-0.5">Rank #{coin.market_cap_rank}</span>
+                )}
+              </div>
+              <div className="ml-auto text-right">
+                <div className="text-2xl md:text-3xl font-bold">{formatPrice(coin.current_price, currency)}</div>
+                <div className={coin.price_change_percentage_24h >= 0 ? 'text-green-400' : 'text-red-400'}>
+                  {formatPriceChange(coin.price_change_percentage_24h)} (24h)
+                </div>
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className={cn(cardClassName, 'md:col-span-2')}>
+                <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Price History</h3>
+                <PriceChart coinId={coin.id} currency={currency} />
+              </div>
+
+              <div className={cardClassName}>
+                <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Market</h3>
+                <StatRow label="Market Cap" value={formatCurrencyCompact(coin.market_cap, currency)} />
+                <StatRow label="Volume (24h)" value={formatCurrencyCompact(coin.total_volume, currency)} />
+                {coin.fully_diluted_valuation !== null && (
+                  <StatRow label="Fully Diluted" value={formatCurrencyCompact(coin.fully_diluted_valuation, currency)} />
+                )}
+                <StatRow label="24h High" value={formatPrice(coin.high_24h || 0, currency)} />
+                <StatRow label="24h Low" value={formatPrice(coin.low_24h || 0, currency)} />
+                <button
+                  onClick={() => openMoonPayWidget({
+                    apiKey: import.meta.env.VITE_MOONPAY_API_KEY || '',
+                    currencyCode: coin.symbol.toLowerCase(),
+                    colorCode: '#8a2be2'
+                  })}
+                  className="w-full bg-violet-600 text-white py-3 px-4 rounded-xl text-sm font-medium hover:bg-violet-700 mt-4"
+                >
+                  Buy {coin.symbol.toUpperCase()}
+                </button>
+              </div>
+
+              <PerformanceSection coin={coin} />
+              <SupplySection coin={coin} />
+              <ExtremesSection coin={coin} currency={currency} />
+              <TokenSection coin={coin} />
+              <LinksSection coin={coin} />
+
+              <div className={cardClassName}>
+                <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Price Alerts</h3>
+                <PriceAlertsPanel
+                  coinId={coin.id}
+                  symbol={coin.symbol}
+                  name={coin.name}
+                  currency={currency}
+                  currentPrice={coin.current_price}
+                />
+              </div>
+
+              {coin.description && (
+                <div className={cn(cardClassName, 'md:col-span-3')}>
+                  <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">About {coin.name}</h3>
+                  <p className="text-gray-300 text-sm leading-relaxed whitespace-pre-line">{coin.description}</p>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CoinPage;
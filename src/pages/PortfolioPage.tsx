@@ -0,0 +1,226 @@
+import React, { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDate, formatPrice, formatPriceChange } from '@/services/cryptoService';
+import { Decimal } from '@/services/decimal';
+import { LOT_METHODS, type LotMethod } from '@/services/lotAccounting';
+import { sortTransactions, type Transaction } from '@/services/portfolio';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import AllocationChart from '@/components/AllocationChart';
+import TransactionForm from '@/components/TransactionForm';
+import TaxReportPanel from '@/components/TaxReportPanel';
+import CurrencySelector from '@/components/CurrencySelector';
+import CoinLogo from '@/components/CoinLogo';
+
+const cardClassName = 'bg-[#181632]/80 border border-blue-900/30 backdrop-blur-md p-5 rounded-lg shadow-lg';
+
+const pnlClassName = (value: number) => value >= 0 ? 'text-green-400' : 'text-red-400';
+
+interface SummaryCardProps {
+  label: string;
+  value: string;
+  detail?: string;
+  valueClassName?: string;
+}
+
+const SummaryCard = ({ label, value, detail, valueClassName }: SummaryCardProps) => (
+  <div className={cardClassName}>
+    <div className="text-gray-400 text-sm">{label}</div>
+    <div className={cn('text-white text-xl md:text-2xl font-bold mt-1', valueClassName)}>{value}</div>
+    {detail && <div className={cn('text-sm mt-0.5', valueClassName || 'text-gray-400')}>{detail}</div>}
+  </div>
+);
+
+// What a transaction paid or received in total, fee included
+const transactionTotal = (transaction: Transaction): number => {
+  const gross = Decimal.from(transaction.quantity).times(transaction.price);
+  return (transaction.type === 'buy' ? gross.plus(transaction.fee) : gross.minus(transaction.fee)).toNumber();
+};
+
+const PortfolioPage = () => {
+  const {
+    currency,
+    method,
+    transactions,
+    summary,
+    isPending,
+    addTransaction,
+    removeTransaction,
+    setCurrency,
+    setMethod
+  } = usePortfolio();
+  const history = sortTransactions(transactions).reverse();
+
+  useEffect(() => {
+    document.title = 'Portfolio | Gods Dollar';
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-[#141529] text-white">
+      <div className="max-w-6xl mx-auto px-4 py-6 md:py-10">
+        <div className="flex items-center justify-between mb-6">
+          <Link to="/" className="text-blue-300 hover:text-white text-sm">← Back to market</Link>
+          <div className="flex flex-wrap items-center justify-end gap-2 text-xs text-gray-400">
+            Cost basis
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as LotMethod)}
+              aria-label="Cost basis method"
+              className="bg-[#131136] text-white border border-blue-900/40 rounded py-0.5 px-1 text-xs focus:outline-none cursor-pointer"
+            >
+              {Object.entries(LOT_METHODS).map(([value, label]) => (
+                <option key={value} value={value}>{value.toUpperCase()} - {label}</option>
+              ))}
+            </select>
+            Currency
+            <CurrencySelector
+              value={currency}
+              onChange={setCurrency}
+              disabled={transactions.length > 0}
+              className="disabled:opacity-60 disabled:cursor-not-allowed"
+            />
+          </div>
+        </div>
+
+        <h1 className="text-2xl md:text-3xl font-bold mb-6">Portfolio</h1>
+
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-4 mb-4">
+          <SummaryCard label="Current value" value={isPending ? '…' : formatPrice(summary.totalValue, currency)} />
+          <SummaryCard
+            label="24h change"
+            value={formatPrice(summary.change24h, currency)}
+            detail={formatPriceChange(summary.change24hPercent)}
+            valueClassName={pnlClassName(summary.change24h)}
+          />
+          <SummaryCard
+            label="Unrealized P&L"
+            value={formatPrice(summary.unrealizedPnl, currency)}
+            detail={formatPriceChange(summary.unrealizedPnlPercent)}
+            valueClassName={pnlClassName(summary.unrealizedPnl)}
+          />
+          <SummaryCard
+            label="Realized P&L"
+            value={formatPrice(summary.realizedPnl, currency)}
+            detail={`Cost basis ${formatPrice(summary.totalCost, currency)}`}
+            valueClassName={pnlClassName(summary.realizedPnl)}
+          />
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className={cn(cardClassName, 'md:col-span-2')}>
+            <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Holdings</h3>
+            {summary.holdings.length === 0 ? (
+              <div className="text-gray-400 text-sm py-6 text-center">Add a transaction to start tracking your holdings.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-blue-900/30 hover:bg-transparent">
+                    <TableHead className="text-gray-400">Coin</TableHead>
+                    <TableHead className="text-gray-400 text-right">Quantity</TableHead>
+                    <TableHead className="text-gray-400 text-right">Avg. cost</TableHead>
+                    <TableHead className="text-gray-400 text-right">Price</TableHead>
+                    <TableHead className="text-gray-400 text-right">Value</TableHead>
+                    <TableHead className="text-gray-400 text-right">Unrealized</TableHead>
+                    <TableHead className="text-gray-400 text-right">Realized</TableHead>
+                    <TableHead className="text-gray-400 text-right">Allocation</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.holdings.map(holding => (
+                    <TableRow key={holding.coinId} className="border-blue-900/30 hover:bg-[#131136]/70">
+                      <TableCell>
+                        <Link to={`/coin/${holding.coinId}`} className="flex items-center gap-2 hover:text-blue-300">
+                          <CoinLogo coinId={holding.coinId} src={holding.image} className="w-5 h-5 rounded-full" />
+                          <span className="font-medium">{holding.symbol.toUpperCase()}</span>
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right">{holding.quantity.toLocaleString(undefined, { maximumFractionDigits: 8 })}</TableCell>
+                      <TableCell className="text-right">{holding.quantity > 0 ? formatPrice(holding.averageCost, currency) : '—'}</TableCell>
+                      <TableCell className="text-right">{holding.currentPrice === null ? '—' : formatPrice(holding.currentPrice, currency)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(holding.value, currency)}</TableCell>
+                      <TableCell className={cn('text-right', pnlClassName(holding.unrealizedPnl))}>
+                        {formatPrice(holding.unrealizedPnl, currency)}
+                        <div className="text-xs">{formatPriceChange(holding.unrealizedPnlPercent)}</div>
+                      </TableCell>
+                      <TableCell className={cn('text-right', pnlClassName(holding.realizedPnl))}>
+                        {formatPrice(holding.realizedPnl, currency)}
+                      </TableCell>
+                      <TableCell className="text-right">{holding.allocation.toFixed(1)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          <div className={cardClassName}>
+            <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Allocation</h3>
+            <AllocationChart holdings={summary.holdings} currency={currency} />
+          </div>
+
+          <div className={cardClassName}>
+            <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Add Transaction</h3>
+            <TransactionForm currency={currency} onSubmit={addTransaction} />
+          </div>
+
+          <div className={cn(cardClassName, 'md:col-span-2')}>
+            <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">Transactions</h3>
+            {history.length === 0 ? (
+              <div className="text-gray-400 text-sm py-6 text-center">No transactions recorded yet.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-blue-900/30 hover:bg-transparent">
+                    <TableHead className="text-gray-400">Date</TableHead>
+                    <TableHead className="text-gray-400">Type</TableHead>
+                    <TableHead className="text-gray-400">Coin</TableHead>
+                    <TableHead className="text-gray-400 text-right">Quantity</TableHead>
+                    <TableHead className="text-gray-400 text-right">Price</TableHead>
+                    <TableHead className="text-gray-400 text-right">Fee</TableHead>
+                    <TableHead className="text-gray-400 text-right">Total</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(transaction => (
+                    <TableRow key={transaction.id} className="border-blue-900/30 hover:bg-[#131136]/70">
+                      <TableCell>{formatDate(transaction.date)}</TableCell>
+                      <TableCell className={cn('capitalize', transaction.type === 'buy' ? 'text-green-400' : 'text-red-400')}>
+                        {transaction.type}
+                      </TableCell>
+                      <TableCell>{transaction.symbol.toUpperCase()}</TableCell>
+                      <TableCell className="text-right">{transaction.quantity}</TableCell>
+                      <TableCell className="text-right">{formatPrice(Number(transaction.price), currency)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(Number(transaction.fee), currency)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(transactionTotal(transaction), currency)}</TableCell>
+                      <TableCell className="text-right">
+                        <button
+                          onClick={() => removeTransaction(transaction.id)}
+                          aria-label="Delete transaction"
+                          className="text-gray-500 hover:text-red-400"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          <div className={cn(cardClassName, 'md:col-span-3')}>
+            <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">
+              Realized Gains <span className="text-gray-400 text-sm">({method.toUpperCase()})</span>
+            </h3>
+            <TaxReportPanel transactions={transactions} method={method} currency={currency} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioPage;
@@ -0,0 +1,89 @@
+import React, { useEffect } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { ExternalLink } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCompactNumber } from '@/services/cryptoService';
+import { getContractPlatform, shortenAddress } from '@/services/contractAddress';
+import { useContractToken } from '@/hooks/use-market-data';
+
+const cardClassName = 'bg-[#181632]/80 border border-blue-900/30 backdrop-blur-md p-5 rounded-lg shadow-lg';
+
+const StatRow = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="flex justify-between items-center py-1.5 gap-4">
+    <span className="text-gray-400 text-sm">{label}</span>
+    <span className="text-white text-sm font-medium text-right break-all">{value}</span>
+  </div>
+);
+
+// Landing page for a token address: listed tokens continue to their coin page, others show what the chain reports
+const TokenPage = () => {
+  const { platform, address } = useParams<{ platform: string; address: string }>();
+  const contractPlatform = platform ? getContractPlatform(platform) : undefined;
+  const { data, isPending } = useContractToken(platform, address);
+  const token = data?.token;
+
+  useEffect(() => {
+    if (address) {
+      document.title = `${token?.symbol || shortenAddress(address)} | Gods Dollar`;
+    }
+  }, [address, token]);
+
+  if (data?.coin?.contract?.listed) {
+    return <Navigate to={`/coin/${data.coin.id}`} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-[#141529] text-white">
+      <div className="max-w-3xl mx-auto px-4 py-6 md:py-10">
+        <div className="mb-6">
+          <Link to="/" className="text-blue-300 hover:text-white text-sm">← Back to market</Link>
+        </div>
+
+        {!contractPlatform ? (
+          <div className={cn(cardClassName, 'text-center text-gray-300')}>"{platform}" is not a supported chain.</div>
+        ) : isPending ? (
+          <div className="h-48 rounded-lg bg-gray-700/30 animate-pulse"></div>
+        ) : !token ? (
+          <div className={cn(cardClassName, 'text-center')}>
+            <p className="text-gray-300 mb-2">No token found at this address on {contractPlatform.name}.</p>
+            <p className="text-gray-500 text-xs break-all">{address}</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-3 mb-1">
+              {token.image && <img src={token.image} alt="" className="w-10 h-10 rounded-full" />}
+              <h1 className="text-2xl md:text-3xl font-bold">
+                {token.name || 'Unknown token'}{' '}
+                {token.symbol && <span className="text-gray-400 text-lg">{token.symbol}</span>}
+              </h1>
+            </div>
+            <p className="text-gray-400 text-sm mb-6">
+              Not listed on CoinGecko yet, so there is no market data. Details below are read from {contractPlatform.name}.
+            </p>
+
+            <div className={cardClassName}>
+              <h3 className="text-blue-300 text-lg mb-2 pb-2 border-b border-blue-900/30">On-chain</h3>
+              <StatRow label="Chain" value={contractPlatform.name} />
+              <StatRow label={contractPlatform.chain === 'solana' ? 'Mint' : 'Contract'} value={token.address} />
+              <StatRow label="Decimals" value={token.decimals} />
+              <StatRow
+                label="Supply"
+                value={token.supply === null ? '—' : `${formatCompactNumber(token.supply)}${token.symbol ? ` ${token.symbol}` : ''}`}
+              />
+              <a
+                href={`${contractPlatform.explorerUrl}${token.address}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-blue-300 hover:text-white text-sm mt-3"
+              >
+                View on explorer <ExternalLink className="w-3.5 h-3.5" />
+              </a>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TokenPage;
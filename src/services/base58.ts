@@ -0,0 +1,48 @@
+// Base58 (Bitcoin alphabet) encoding, used for Solana addresses and signatures
+
+const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const DIGITS: Record<string, number> = Object.fromEntries([...ALPHABET].map((char, index) => [char, index]));
+
+// Decode a base58 string to bytes; null when it contains characters outside the alphabet
+export const decodeBase58 = (value: string): Uint8Array | null => {
+  let number = 0n;
+  for (const char of value) {
+    const digit = DIGITS[char];
+    if (digit === undefined) return null;
+    number = number * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (number > 0n) {
+    bytes.unshift(Number(number % 256n));
+    number /= 256n;
+  }
+
+  // Each leading '1' stands for a leading zero byte
+  for (const char of value) {
+    if (char !== '1') break;
+    bytes.unshift(0);
+  }
+  return Uint8Array.from(bytes);
+};
+
+// Encode bytes as a base58 string
+export const encodeBase58 = (bytes: Uint8Array): string => {
+  let number = 0n;
+  for (const byte of bytes) {
+    number = number * 256n + BigInt(byte);
+  }
+
+  let encoded = '';
+  while (number > 0n) {
+    encoded = ALPHABET[Number(number % 58n)] + encoded;
+    number /= 58n;
+  }
+
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+  return encoded;
+};
@@ -0,0 +1,154 @@
+// Minimal IndexedDB key-value storage used to persist caches across reloads
+// Every call resolves quietly when IndexedDB is unavailable (private mode, SSR, old browsers)
+
+const DB_NAME = 'godsdollar-cache';
+const DB_VERSION = 3;
+
+// Object stores in the cache database; new stores are created on upgrade
+export type CacheStoreName = 'api' | 'images' | 'health' | 'blacklist' | 'coinIndex';
+const STORE_NAMES: CacheStoreName[] = ['api', 'images', 'health', 'blacklist', 'coinIndex'];
+
+export interface StoredEntry<T> {
+  key: string;
+  value: T;
+}
+
+// Give up on opening the database after this long and cache in memory only
+const OPEN_TIMEOUT_MS = 3000;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Open (and create or upgrade) the cache database once per page load
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    // The first outcome wins; an open that succeeds after we gave up is closed again
+    let settled = false;
+    const settle = (db: IDBDatabase | null) => {
+      if (settled) {
+        db?.close();
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      resolve(db);
+    };
+    const timer = setTimeout(() => {
+      console.warn('Opening the cache database timed out, caching in memory only');
+      settle(null);
+    }, OPEN_TIMEOUT_MS);
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of STORE_NAMES) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version open in another tab; this tab carries on in memory
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = Promise.resolve(null);
+        };
+        settle(db);
+      };
+      request.onerror = () => {
+        console.warn('Unable to open cache database, caching in memory only', request.error);
+        settle(null);
+      };
+      // Another tab still holds an older version open
+      request.onblocked = () => {
+        console.warn('Cache database upgrade is blocked by another tab, caching in memory only');
+        settle(null);
+      };
+    } catch (error) {
+      console.warn('IndexedDB is not available, caching in memory only', error);
+      settle(null);
+    }
+  });
+
+  return dbPromise;
+};
+
+// Run a single request against a store and resolve with its result
+const runRequest = async <T>(
+  storeName: CacheStoreName,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  return new Promise(resolve => {
+    try {
+      const transaction = db.transaction(storeName, mode);
+      const request = createRequest(transaction.objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => {
+        console.warn(`Cache storage request failed on ${storeName}`, request.error);
+        resolve(undefined);
+      };
+    } catch (error) {
+      console.warn(`Cache storage transaction failed on ${storeName}`, error);
+      resolve(undefined);
+    }
+  });
+};
+
+// Load every entry in a store
+export const loadEntries = async <T>(storeName: CacheStoreName): Promise<StoredEntry<T>[]> => {
+  const db = await openDatabase();
+  if (!db) return [];
+
+  return new Promise(resolve => {
+    const entries: StoredEntry<T>[] = [];
+
+    try {
+      const request = db.transaction(storeName, 'readonly').objectStore(storeName).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          entries.push({ key: String(cursor.key), value: cursor.value as T });
+          cursor.continue();
+        } else {
+          resolve(entries);
+        }
+      };
+      request.onerror = () => {
+        console.warn(`Unable to read cache store ${storeName}`, request.error);
+        resolve(entries);
+      };
+    } catch (error) {
+      console.warn(`Unable to read cache store ${storeName}`, error);
+      resolve(entries);
+    }
+  });
+};
+
+// Load a single entry from a store
+export const loadEntry = <T>(storeName: CacheStoreName, key: string): Promise<T | undefined> => {
+  return runRequest<T>(storeName, 'readonly', store => store.get(key));
+};
+
+// Write an entry to a store
+export const saveEntry = async <T>(storeName: CacheStoreName, key: string, value: T): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.put(value, key));
+};
+
+// Remove an entry from a store
+export const deleteEntry = async (storeName: CacheStoreName, key: string): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.delete(key));
+};
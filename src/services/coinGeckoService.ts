@@ -1,8 +1,48 @@
-import axios from 'axios';
+// CoinGecko market data provider
+// Documentation: https://docs.coingecko.com/reference/introduction
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import type { MarketDataProvider } from './marketDataProvider';
+import { coalesceRequest, requestKey } from './requestCoalescing';
+import { RateLimitScheduler, type RequestPriority } from './rateLimitScheduler';
+import { withCircuitBreaker } from './providerHealth';
+import type {
+  CoinData,
+  CoinDetail,
+  CoinListEntry,
+  CoinPlatform,
+  MarketChartDays,
+  MarketChartPoint,
+  OhlcCandle,
+  SearchResultItem,
+  TrendingCoin
+} from './types';
 
-const BASE_URL = 'https://api.coingecko.com/api/v3';
+// Service configuration
+export const API_BASE_URL = 'https://api.coingecko.com/api/v3';
+export const COINGECKO_API_KEY = import.meta.env.VITE_COINGECKO_API_KEY || ''; // CoinGecko API key from env
 
-export interface CoinData {
+// Sustained request budget; the free API allows around 30 calls a minute
+const RATE_LIMIT_PER_MINUTE = Number(import.meta.env.VITE_COINGECKO_RATE_LIMIT) || 30;
+
+// Every CoinGecko request, including background image lookups, goes through this scheduler
+export const coinGeckoScheduler = new RateLimitScheduler('CoinGecko', {
+  capacity: Number(import.meta.env.VITE_COINGECKO_BURST) || 5,
+  refillPerSecond: RATE_LIMIT_PER_MINUTE / 60,
+  maxRetries: 3,
+  baseBackoffMs: 2000,
+  maxBackoffMs: 60 * 1000,
+});
+
+// Largest page /coins/markets returns, and so the most coins one ids= request can cover
+const MARKETS_PAGE_SIZE = 250;
+
+// Axios options plus the scheduler priority for the request
+export interface CoinGeckoRequestOptions extends AxiosRequestConfig {
+  priority?: RequestPriority;
+}
+
+// Interface for CoinGecko market data
+interface CoinGeckoMarketData {
   id: string;
   symbol: string;
   name: string;
@@ -12,83 +52,434 @@ export interface CoinData {
   market_cap: number;
   market_cap_rank: number;
   total_volume: number;
+  high_24h?: number;
+  low_24h?: number;
 }
 
-export interface TrendingCoin {
-  item: {
-    id: string;
-    name: string;
-    symbol: string;
+// Interface for CoinGecko coin details
+interface CoinGeckoDetailResponse {
+  id: string;
+  symbol: string;
+  name: string;
+  image: {
     thumb: string;
     small: string;
-    price_btc: number;
-    score: number;
+    large: string;
+  };
+  market_cap_rank: number;
+  categories?: (string | null)[];
+  description?: {
+    en?: string;
+  };
+  links?: {
+    homepage?: string[];
+    blockchain_site?: string[];
+    chat_url?: string[];
+    twitter_screen_name?: string | null;
+    telegram_channel_identifier?: string | null;
+    subreddit_url?: string | null;
+    repos_url?: {
+      github?: string[];
+      bitbucket?: string[];
+    };
+  };
+  detail_platforms?: Record<string, {
+    decimal_place: number | null;
+    contract_address: string;
+  }>;
+  market_data?: {
+    current_price: Record<string, number>;
+    price_change_percentage_24h: number;
+    market_cap: Record<string, number>;
+    total_volume: Record<string, number>;
+    high_24h: Record<string, number>;
+    low_24h: Record<string, number>;
+    circulating_supply?: number | null;
+    total_supply?: number | null;
+    max_supply?: number | null;
+    fully_diluted_valuation?: Record<string, number>;
+    price_change_percentage_7d_in_currency?: Record<string, number>;
+    price_change_percentage_30d_in_currency?: Record<string, number>;
+    price_change_percentage_1y_in_currency?: Record<string, number>;
+    ath?: Record<string, number>;
+    ath_date?: Record<string, string>;
+    atl?: Record<string, number>;
+    atl_date?: Record<string, string>;
   };
 }
 
-export const fetchTopCoins = async (
-  currency: string = 'usd',
-  limit: number = 6
-): Promise<CoinData[]> => {
-  try {
-    const response = await axios.get(`${BASE_URL}/coins/markets`, {
-      params: {
-        vs_currency: currency,
-        order: 'market_cap_desc',
-        per_page: limit,
-        page: 1,
-        sparkline: false,
-        price_change_percentage: '24h',
+// Query params for /coins/{id}; quotes and details use the same ones so concurrent calls share a request
+const COIN_DETAIL_PARAMS = {
+  localization: false,
+  tickers: false,
+  market_data: true,
+  community_data: false,
+  developer_data: false
+};
+
+// Interface for CoinGecko trending response
+interface TrendingResponse {
+  coins: TrendingCoin[];
+}
+
+// Interface for CoinGecko search response
+interface SearchResponse {
+  coins: SearchResultItem[];
+}
+
+// Interface for CoinGecko market chart response, each entry is [timestamp, value]
+interface MarketChartResponse {
+  prices: [number, number][];
+  market_caps: [number, number][];
+  total_volumes: [number, number][];
+}
+
+// Interface for CoinGecko /coins/{id}/history response; market_data is missing before a coin was listed
+interface HistoryResponse {
+  market_data?: {
+    current_price?: Record<string, number>;
+  };
+}
+
+// CoinGecko OHLC response entries are [timestamp, open, high, low, close]
+type OhlcResponse = [number, number, number, number, number][];
+
+// Fetch from the CoinGecko API through the shared scheduler, which retries 429s.
+// Identical concurrent requests share one network call, and options.signal cancels
+// this caller without affecting the others.
+export function fetchWithRetry<T>(url: string, options: CoinGeckoRequestOptions = {}): Promise<T> {
+  const { signal, priority, ...requestOptions } = options;
+
+  return coalesceRequest(requestKey(url, requestOptions.params), sharedSignal => {
+    // Add CoinGecko API key to the headers if not already present
+    const enhancedOptions: AxiosRequestConfig = {
+      ...requestOptions,
+      headers: {
+        ...(requestOptions.headers || {}),
+        'x-cg-api-key': COINGECKO_API_KEY,
       },
+      signal: sharedSignal,
+    };
+
+    return coinGeckoScheduler.schedule(async () => {
+      const response: AxiosResponse<T> = await axios.get(url, enhancedOptions);
+      return response.data;
+    }, { priority, signal: sharedSignal });
+  }, signal as AbortSignal | undefined);
+}
+
+// Map a /coins/{id} response to a quote in the given currency
+const detailToCoinData = (data: CoinGeckoDetailResponse, currency: string): CoinData => ({
+  id: data.id,
+  symbol: data.symbol,
+  name: data.name,
+  image: data.image?.small,
+  current_price: data.market_data?.current_price[currency] || 0,
+  price_change_percentage_24h: data.market_data?.price_change_percentage_24h || 0,
+  market_cap: data.market_data?.market_cap[currency] || 0,
+  market_cap_rank: data.market_cap_rank || 0,
+  total_volume: data.market_data?.total_volume[currency] || 0,
+  high_24h: data.market_data?.high_24h[currency] || 0,
+  low_24h: data.market_data?.low_24h[currency] || 0
+});
+
+// Descriptions come back as HTML with links; we only ever render them as text
+const toPlainText = (html: string): string => {
+  if (typeof DOMParser !== 'undefined') {
+    return new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+  }
+  return html.replace(/<[^>]*>/g, '');
+};
+
+// Drop the empty strings CoinGecko pads link arrays with
+const nonEmpty = (values?: string[]): string[] => (values || []).filter(value => value && value.trim() !== '');
+
+// CoinGecko returns an empty string rather than null for missing handles
+const optional = (value?: string | null): string | null => value && value.trim() !== '' ? value : null;
+
+// Token contracts per chain; native coins are listed under an empty platform with no address
+const toPlatforms = (platforms: CoinGeckoDetailResponse['detail_platforms']): CoinPlatform[] => {
+  return Object.entries(platforms || {})
+    .filter(([platform, detail]) => platform && detail?.contract_address)
+    .map(([platform, detail]) => ({
+      platform,
+      contract_address: detail.contract_address,
+      decimals: detail.decimal_place ?? null,
+    }));
+};
+
+const marketDataToCoinData = (coin: CoinGeckoMarketData): CoinData => ({
+  id: coin.id,
+  symbol: coin.symbol,
+  name: coin.name,
+  image: coin.image,
+  current_price: coin.current_price,
+  price_change_percentage_24h: coin.price_change_percentage_24h,
+  market_cap: coin.market_cap,
+  market_cap_rank: coin.market_cap_rank,
+  total_volume: coin.total_volume,
+  high_24h: coin.high_24h,
+  low_24h: coin.low_24h,
+});
+
+export const coinGeckoProvider: MarketDataProvider = {
+  id: 'coingecko',
+  name: 'CoinGecko',
+
+  async fetchTopCoins(currency: string, limit: number, signal?: AbortSignal): Promise<CoinData[]> {
+    // Use the /coins/markets endpoint as recommended in the docs
+    const params = {
+      vs_currency: currency,
+      order: 'market_cap_desc', // Sort by market cap descending
+      per_page: limit,
+      page: 1,
+      sparkline: false,
+      price_change_percentage: '24h',
+    };
+
+    const data = await fetchWithRetry<CoinGeckoMarketData[]>(
+      `${API_BASE_URL}/coins/markets`,
+      { params, timeout: 5000, signal }
+    );
+
+    return data.map(marketDataToCoinData);
+  },
+
+  async fetchCoinsByIds(coinIds: string[], currency: string, signal?: AbortSignal): Promise<CoinData[]> {
+    if (coinIds.length === 0) return [];
+
+    // One /coins/markets call covers up to MARKETS_PAGE_SIZE coins
+    const pages: string[][] = [];
+    for (let i = 0; i < coinIds.length; i += MARKETS_PAGE_SIZE) {
+      pages.push(coinIds.slice(i, i + MARKETS_PAGE_SIZE));
+    }
+
+    const results = await Promise.all(pages.map(ids =>
+      fetchWithRetry<CoinGeckoMarketData[]>(`${API_BASE_URL}/coins/markets`, {
+        params: {
+          vs_currency: currency,
+          ids: ids.join(','),
+          per_page: ids.length,
+          page: 1,
+          sparkline: false,
+          price_change_percentage: '24h',
+        },
+        timeout: 5000,
+        signal
+      })
+    ));
+
+    return results.flat().map(marketDataToCoinData);
+  },
+
+  async fetchCoinData(coinId: string, currency: string, signal?: AbortSignal): Promise<CoinData | null> {
+    const data = await fetchWithRetry<CoinGeckoDetailResponse>(`${API_BASE_URL}/coins/${coinId}`, {
+      params: COIN_DETAIL_PARAMS,
+      signal
+    });
+
+    return detailToCoinData(data, currency);
+  },
+
+  async fetchTrendingCoins(signal?: AbortSignal): Promise<TrendingCoin[]> {
+    const response = await fetchWithRetry<TrendingResponse>(`${API_BASE_URL}/search/trending`, { signal });
+    return response.coins || [];
+  },
+
+  async searchCoins(query: string, signal?: AbortSignal): Promise<SearchResultItem[]> {
+    const response = await fetchWithRetry<SearchResponse>(`${API_BASE_URL}/search`, {
+      params: { query },
+      signal,
+      priority: 'high' // Someone is waiting on the results
     });
-    return response.data;
+    return response.coins || [];
+  },
+};
+
+// Fetch the full coin profile (description, links, supply, ATH/ATL) from the /coins/{id} endpoint
+export const fetchCoinDetail = async (
+  coinId: string,
+  currency: string,
+  signal?: AbortSignal
+): Promise<CoinDetail> => {
+  const data = await withCircuitBreaker(coinGeckoProvider.id, 'coinDetail', () =>
+    fetchWithRetry<CoinGeckoDetailResponse>(`${API_BASE_URL}/coins/${coinId}`, {
+      params: COIN_DETAIL_PARAMS,
+      signal
+    })
+  );
+  const marketData = data.market_data;
+  const links = data.links;
+  const twitter = optional(links?.twitter_screen_name);
+  const telegram = optional(links?.telegram_channel_identifier);
+
+  return {
+    ...detailToCoinData(data, currency),
+    description: toPlainText(data.description?.en || ''),
+    links: {
+      homepage: nonEmpty(links?.homepage),
+      blockchain_site: nonEmpty(links?.blockchain_site),
+      repos: nonEmpty([...(links?.repos_url?.github || []), ...(links?.repos_url?.bitbucket || [])]),
+      chat: nonEmpty(links?.chat_url),
+      twitter: twitter ? `https://twitter.com/${twitter}` : null,
+      reddit: optional(links?.subreddit_url),
+      telegram: telegram ? `https://t.me/${telegram}` : null,
+    },
+    categories: nonEmpty(data.categories as string[] | undefined),
+    platforms: toPlatforms(data.detail_platforms),
+    circulating_supply: marketData?.circulating_supply ?? null,
+    total_supply: marketData?.total_supply ?? null,
+    max_supply: marketData?.max_supply ?? null,
+    fully_diluted_valuation: marketData?.fully_diluted_valuation?.[currency] ?? null,
+    price_change_percentage_7d: marketData?.price_change_percentage_7d_in_currency?.[currency] ?? null,
+    price_change_percentage_30d: marketData?.price_change_percentage_30d_in_currency?.[currency] ?? null,
+    price_change_percentage_1y: marketData?.price_change_percentage_1y_in_currency?.[currency] ?? null,
+    ath: marketData?.ath?.[currency] ?? null,
+    ath_date: marketData?.ath_date?.[currency] ?? null,
+    atl: marketData?.atl?.[currency] ?? null,
+    atl_date: marketData?.atl_date?.[currency] ?? null,
+  };
+};
+
+// Look up the coin listed for a token contract from the /coins/{platform}/contract/{address} endpoint.
+// Resolves null when CoinGecko has no listing for the address on that platform.
+export const fetchCoinByContract = async (
+  platformId: string,
+  address: string,
+  signal?: AbortSignal
+): Promise<SearchResultItem | null> => {
+  try {
+    const data = await withCircuitBreaker(coinGeckoProvider.id, 'contract', () =>
+      fetchWithRetry<CoinGeckoDetailResponse>(`${API_BASE_URL}/coins/${platformId}/contract/${address}`, {
+        params: { ...COIN_DETAIL_PARAMS, market_data: false },
+        signal,
+        priority: 'high' // Someone is waiting on the results
+      })
+    );
+    return {
+      id: data.id,
+      name: data.name,
+      symbol: data.symbol,
+      thumb: data.image?.thumb,
+      small: data.image?.small,
+      market_cap_rank: data.market_cap_rank || undefined,
+    };
   } catch (error) {
-    console.error('Error fetching top coins:', error);
-    return [];
+    if ((error as { response?: { status?: number } })?.response?.status === 404) {
+      return null;
+    }
+    throw error;
   }
 };
 
-export const fetchCoinData = async (
+// Fetch the price of a coin on a past day (YYYY-MM-DD, UTC) from the /coins/{id}/history endpoint
+export const fetchHistoricalPrice = async (
   coinId: string,
-  currency: string = 'usd'
-): Promise<CoinData | null> => {
-  try {
-    const response = await axios.get(`${BASE_URL}/coins/markets`, {
+  day: string,
+  currency: string,
+  signal?: AbortSignal
+): Promise<number | null> => {
+  const [year, month, date] = day.split('-');
+  const data = await withCircuitBreaker(coinGeckoProvider.id, 'history', () =>
+    fetchWithRetry<HistoryResponse>(`${API_BASE_URL}/coins/${coinId}/history`, {
       params: {
-        vs_currency: currency,
-        ids: coinId,
-        sparkline: false,
-        price_change_percentage: '24h',
+        date: `${date}-${month}-${year}`, // The endpoint wants dd-mm-yyyy
+        localization: false,
       },
-    });
-    return response.data[0] || null;
-  } catch (error) {
-    console.error(`Error fetching data for ${coinId}:`, error);
-    return null;
-  }
+      signal,
+    })
+  );
+  return data.market_data?.current_price?.[currency] ?? null;
 };
 
-export const fetchTrendingCoins = async (): Promise<TrendingCoin[]> => {
-  try {
-    const response = await axios.get(`${BASE_URL}/search/trending`);
-    return response.data.coins || [];
-  } catch (error) {
-    console.error('Error fetching trending coins:', error);
-    return [];
-  }
+// Fetch every coin CoinGecko lists (id, symbol and name only) from the /coins/list endpoint
+export const fetchCoinList = async (signal?: AbortSignal): Promise<CoinListEntry[]> => {
+  const data = await withCircuitBreaker(coinGeckoProvider.id, 'coinList', () =>
+    fetchWithRetry<CoinListEntry[]>(`${API_BASE_URL}/coins/list`, {
+      timeout: 30000, // Several megabytes
+      signal,
+      priority: 'low' // Background refresh; never hold up what's on screen
+    })
+  );
+  return Array.isArray(data) ? data : [];
 };
 
-export const formatPrice = (price: number): string => {
-  if (price >= 1000) {
-    return `$${(price).toFixed(0).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
-  } else if (price >= 1) {
-    return `$${price.toFixed(2)}`;
-  } else {
-    return `$${price.toFixed(6)}`;
+// Fetch the largest coins by market cap, MARKETS_PAGE_SIZE per page, for their ranks and images
+export const fetchRankedCoins = async (pages: number, currency: string, signal?: AbortSignal): Promise<CoinData[]> => {
+  const results: CoinData[] = [];
+  // One page at a time, so a refresh never takes a burst of the rate limit
+  for (let page = 1; page <= pages; page++) {
+    const data = await withCircuitBreaker(coinGeckoProvider.id, 'coinList', () =>
+      fetchWithRetry<CoinGeckoMarketData[]>(`${API_BASE_URL}/coins/markets`, {
+        params: {
+          vs_currency: currency,
+          order: 'market_cap_desc',
+          per_page: MARKETS_PAGE_SIZE,
+          page,
+          sparkline: false,
+        },
+        timeout: 10000,
+        signal,
+        priority: 'low'
+      })
+    );
+    results.push(...data.map(marketDataToCoinData));
   }
+  return results;
+};
+
+// Fetch historical prices from the /coins/{id}/market_chart endpoint
+export const fetchMarketChart = async (
+  coinId: string,
+  currency: string,
+  days: MarketChartDays,
+  signal?: AbortSignal
+): Promise<MarketChartPoint[]> => {
+  const data = await withCircuitBreaker(coinGeckoProvider.id, 'marketChart', () =>
+    fetchWithRetry<MarketChartResponse>(`${API_BASE_URL}/coins/${coinId}/market_chart`, {
+      params: {
+        vs_currency: currency,
+        days,
+      },
+      timeout: 10000,
+      signal,
+    })
+  );
+
+  // Market caps and volumes share the timestamps of the price series
+  return (data.prices || []).map(([timestamp, price], index) => ({
+    timestamp,
+    price,
+    market_cap: data.market_caps?.[index]?.[1] || 0,
+    total_volume: data.total_volumes?.[index]?.[1] || 0,
+  }));
 };
 
-export const formatPriceChange = (change: number): string => {
-  const sign = change >= 0 ? '+' : '';
-  return `${sign}${change.toFixed(2)}%`;
+// Fetch candles from the /coins/{id}/ohlc endpoint.
+// CoinGecko does not return volume here, so candles come back with volume set to 0.
+export const fetchOhlc = async (
+  coinId: string,
+  currency: string,
+  days: MarketChartDays,
+  signal?: AbortSignal
+): Promise<OhlcCandle[]> => {
+  const data = await withCircuitBreaker(coinGeckoProvider.id, 'ohlc', () =>
+    fetchWithRetry<OhlcResponse>(`${API_BASE_URL}/coins/${coinId}/ohlc`, {
+      params: {
+        vs_currency: currency,
+        days,
+      },
+      timeout: 10000,
+      signal,
+    })
+  );
+
+  return (data || []).map(([timestamp, open, high, low, close]) => ({
+    timestamp,
+    open,
+    high,
+    low,
+    close,
+    volume: 0,
+  }));
 };
@@ -0,0 +1,190 @@
+// Offline coin search over CoinGecko's full coin list
+// The list is downloaded in the background, kept in IndexedDB and refreshed daily, so searching never
+// touches the network and keeps working offline. The largest coins carry their market cap rank, which
+// lifts them above look-alike tokens with the same name or symbol.
+
+import type { CoinListEntry, SearchResultItem } from './types';
+import { fetchCoinList, fetchRankedCoins } from './coinGeckoService';
+import { loadEntry, saveEntry } from './cacheStorage';
+
+export interface IndexedCoin extends CoinListEntry {
+  rank?: number; // Market cap rank, only known for the largest coins
+  thumb?: string;
+}
+
+interface StoredCoinIndex {
+  updatedAt: number;
+  coins: IndexedCoin[];
+}
+
+// Lower-cased fields, prepared once so each keystroke only compares strings
+interface SearchableCoin extends IndexedCoin {
+  idKey: string;
+  symbolKey: string;
+  nameKey: string;
+  words: string[];
+}
+
+// IndexedDB key of the stored index
+const INDEX_KEY = 'coins';
+
+// The list changes slowly; refresh it once a day
+const INDEX_TTL_MS = 24 * 60 * 60 * 1000;
+
+// After a failed download, wait this long before trying again
+const RETRY_AFTER_FAILURE_MS = 30 * 60 * 1000;
+
+// How often to check whether the index needs refreshing
+const REFRESH_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Pages of 250 coins ranked by market cap; coins outside them stay unranked
+const RANKED_PAGES = 4;
+
+let searchable: SearchableCoin[] = [];
+let updatedAt = 0;
+let lastFailureAt = 0;
+let loadPromise: Promise<void> | null = null;
+let refreshPromise: Promise<void> | null = null;
+
+const toSearchable = (coin: IndexedCoin): SearchableCoin => {
+  const nameKey = coin.name.toLowerCase();
+  return {
+    ...coin,
+    idKey: coin.id.toLowerCase(),
+    symbolKey: coin.symbol.toLowerCase(),
+    nameKey,
+    words: nameKey.split(/[\s\-_.()]+/).filter(Boolean),
+  };
+};
+
+const applyIndex = (stored: StoredCoinIndex): void => {
+  searchable = stored.coins.map(toSearchable);
+  updatedAt = stored.updatedAt;
+};
+
+// Download the list and the market cap ranks, then store and use them
+export const refreshCoinIndex = (): Promise<void> => {
+  if (refreshPromise) return refreshPromise;
+
+  refreshPromise = (async () => {
+    try {
+      const [list, ranked] = await Promise.all([fetchCoinList(), fetchRankedCoins(RANKED_PAGES, 'usd')]);
+      if (list.length === 0) {
+        throw new Error('CoinGecko returned an empty coin list');
+      }
+
+      const ranks = new Map(ranked.map(coin => [coin.id, coin]));
+      const coins: IndexedCoin[] = list.map(({ id, symbol, name }) => {
+        const market = ranks.get(id);
+        return market?.market_cap_rank
+          ? { id, symbol, name, rank: market.market_cap_rank, thumb: market.image }
+          : { id, symbol, name };
+      });
+
+      const stored: StoredCoinIndex = { updatedAt: Date.now(), coins };
+      applyIndex(stored);
+      await saveEntry('coinIndex', INDEX_KEY, stored);
+    } catch (error) {
+      lastFailureAt = Date.now();
+      console.warn('Could not refresh the coin search index', error);
+    } finally {
+      refreshPromise = null;
+    }
+  })();
+
+  return refreshPromise;
+};
+
+// Refresh in the background when the index is missing or a day old, unless offline or recently failed
+const refreshIfStale = (): void => {
+  const isOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+  if (isOffline || Date.now() - lastFailureAt < RETRY_AFTER_FAILURE_MS) return;
+  if (Date.now() - updatedAt >= INDEX_TTL_MS) {
+    void refreshCoinIndex();
+  }
+};
+
+// Load the stored index once per page load and start refreshing it on schedule
+export const loadCoinIndex = (): Promise<void> => {
+  if (loadPromise) return loadPromise;
+
+  loadPromise = (async () => {
+    const stored = await loadEntry<StoredCoinIndex>('coinIndex', INDEX_KEY);
+    if (stored && Array.isArray(stored.coins) && searchable.length === 0) {
+      applyIndex(stored);
+    }
+    refreshIfStale();
+
+    if (typeof window !== 'undefined') {
+      setInterval(refreshIfStale, REFRESH_CHECK_INTERVAL_MS);
+      window.addEventListener('online', refreshIfStale);
+    }
+  })();
+
+  return loadPromise;
+};
+
+// Whether searches can be answered locally yet
+export const isCoinIndexReady = (): boolean => searchable.length > 0;
+
+// How close the query came to the coin; 0 means no match
+const matchScore = (coin: SearchableCoin, query: string): number => {
+  if (coin.symbolKey === query) return 100;
+  if (coin.nameKey === query || coin.idKey === query) return 95;
+  if (coin.symbolKey.startsWith(query)) return 80;
+  if (coin.nameKey.startsWith(query) || coin.idKey.startsWith(query)) return 75;
+  if (coin.words.some(word => word.startsWith(query))) return 65;
+  if (coin.nameKey.includes(query) || coin.idKey.includes(query)) return 50;
+  if (query.length < 3) return 0;
+
+  // Letters in order with gaps, e.g. "btcn" in "bitcoin"; tighter spans score higher
+  const fuzzy = Math.max(subsequenceScore(coin.nameKey, query), subsequenceScore(coin.idKey, query));
+  return fuzzy > 0 ? 20 + 20 * fuzzy : 0;
+};
+
+// Share of the matched span taken by the query, or 0 when the letters don't all appear in order
+const subsequenceScore = (text: string, query: string): number => {
+  let start = -1;
+  let position = 0;
+  for (const char of query) {
+    const found = text.indexOf(char, position);
+    if (found === -1) return 0;
+    if (start === -1) start = found;
+    position = found + 1;
+  }
+  return query.length / (position - start);
+};
+
+// Up to 25 extra points for the very largest coins, fading out over the top thousand
+const rankBoost = (rank?: number): number => rank ? Math.max(0, 25 - 6 * Math.log10(rank)) : 0;
+
+// Search the local index; null while it hasn't been downloaded yet
+export const searchCoinIndex = (query: string, limit: number): SearchResultItem[] | null => {
+  if (!isCoinIndexReady()) return null;
+
+  const normalized = query.trim().toLowerCase();
+  if (normalized === '') return [];
+
+  const hits: { coin: SearchableCoin; score: number }[] = [];
+  for (const coin of searchable) {
+    const score = matchScore(coin, normalized);
+    if (score > 0) {
+      hits.push({ coin, score: score + rankBoost(coin.rank) });
+    }
+  }
+
+  hits.sort((a, b) =>
+    b.score - a.score
+    || (a.coin.rank ?? Infinity) - (b.coin.rank ?? Infinity)
+    || a.coin.name.length - b.coin.name.length
+  );
+
+  return hits.slice(0, limit).map(({ coin }) => ({
+    id: coin.id,
+    name: coin.name,
+    symbol: coin.symbol,
+    thumb: coin.thumb,
+    small: coin.thumb,
+    market_cap_rank: coin.rank,
+  }));
+};
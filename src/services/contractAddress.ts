@@ -0,0 +1,55 @@
+// Recognise pasted token addresses: Solana mints (base58) and EVM contracts (0x…)
+
+import { decodeBase58 } from './base58';
+
+export type AddressChain = 'solana' | 'evm';
+
+export interface ContractAddress {
+  chain: AddressChain;
+  address: string;
+}
+
+// A chain a token can live on, named by its CoinGecko asset platform ID
+export interface ContractPlatform {
+  id: string;
+  name: string;
+  chain: AddressChain;
+  explorerUrl: string; // Token page is explorerUrl + address
+}
+
+// Platforms tried, in order, when resolving an address; the same EVM address can exist on several chains
+export const CONTRACT_PLATFORMS: ContractPlatform[] = [
+  { id: 'solana', name: 'Solana', chain: 'solana', explorerUrl: 'https://solscan.io/token/' },
+  { id: 'ethereum', name: 'Ethereum', chain: 'evm', explorerUrl: 'https://etherscan.io/token/' },
+  { id: 'base', name: 'Base', chain: 'evm', explorerUrl: 'https://basescan.org/token/' },
+  { id: 'binance-smart-chain', name: 'BNB Smart Chain', chain: 'evm', explorerUrl: 'https://bscscan.com/token/' },
+  { id: 'arbitrum-one', name: 'Arbitrum One', chain: 'evm', explorerUrl: 'https://arbiscan.io/token/' },
+  { id: 'polygon-pos', name: 'Polygon', chain: 'evm', explorerUrl: 'https://polygonscan.com/token/' },
+];
+
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const BASE58_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+// The address in a search query, or null when the query is a name or symbol
+export const detectContractAddress = (query: string): ContractAddress | null => {
+  const value = query.trim();
+  if (EVM_ADDRESS.test(value)) {
+    // EVM addresses are case-insensitive; mixed case is only a checksum
+    return { chain: 'evm', address: value.toLowerCase() };
+  }
+  // Solana public keys are 32 bytes; the length check rules out long words that happen to be base58
+  if (BASE58_ADDRESS.test(value) && decodeBase58(value)?.length === 32) {
+    return { chain: 'solana', address: value };
+  }
+  return null;
+};
+
+export const platformsFor = (chain: AddressChain): ContractPlatform[] =>
+  CONTRACT_PLATFORMS.filter(platform => platform.chain === chain);
+
+export const getContractPlatform = (platformId: string): ContractPlatform | undefined =>
+  CONTRACT_PLATFORMS.find(platform => platform.id === platformId);
+
+// Shorten an address for display, e.g. HwQP…pump
+export const shortenAddress = (address: string): string =>
+  address.length > 12 ? `${address.slice(0, 4)}…${address.slice(-4)}` : address;
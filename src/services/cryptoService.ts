@@ -1,141 +1,143 @@
 // TypeScript implementation based on compact-crypto.js
 // Provides cryptocurrency data retrieval and display functionality with proper image handling
 
-import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
-
-// Define interfaces for cryptocurrency data
-export interface CoinData {
-  id: string;
-  symbol: string;
-  name: string;
-  image: string;
-  current_price: number;
-  price_change_percentage_24h: number;
-  market_cap: number;
-  market_cap_rank: number;
-  total_volume: number;
-  high_24h?: number; 
-  low_24h?: number;
-}
-
-export interface TrendingCoin {
-  item: {
-    id: string;
-    name: string;
-    symbol: string;
-    thumb: string;
-    small: string;
-    price_btc: number;
-    score: number;
-  };
-}
-
-// Define interface for currency options
-export interface CurrencyOption {
-  symbol: string;
-  name: string;
-}
-
-// Interface for CoinGecko market data
-interface CoinGeckoMarketData {
-  id: string;
-  symbol: string;
-  name: string;
-  image: string;
-  current_price: number;
-  price_change_percentage_24h: number;
-  market_cap: number;
-  market_cap_rank: number;
-  total_volume: number;
-  high_24h?: number;
-  low_24h?: number;
-}
-
-// Interface for MoonPay currency data
-interface MoonPayCurrency {
-  code: string;
-  name: string;
-  logoUrl?: string;
-  price?: number;
-  change24Hour?: number;
-  marketCap?: number;
-  rank?: number;
-  volume24Hour?: number;
-  btcRate?: number;
-}
-
-// Interface for CoinGecko coin details
-interface CoinGeckoDetailResponse {
-  id: string;
-  symbol: string;
-  name: string;
-  image: {
-    thumb: string;
-    small: string;
-    large: string;
-  };
-  market_cap_rank: number;
-  market_data?: {
-    current_price: Record<string, number>;
-    price_change_percentage_24h: number;
-    market_cap: Record<string, number>;
-    total_volume: Record<string, number>;
-    high_24h: Record<string, number>;
-    low_24h: Record<string, number>;
-  };
-}
-
-// Interface for search result item
-interface SearchResultItem {
-  id: string;
-  name: string;
-  symbol: string;
-  thumb?: string;
-  small?: string;
-  market_cap_rank?: number;
-}
-
-// Interface for CoinGecko trending response
-interface TrendingResponse {
-  coins: TrendingCoin[];
-}
+import type {
+  CoinData,
+  CoinDetail,
+  MarketChartDays,
+  MarketChartPoint,
+  OhlcCandle,
+  SearchResultItem,
+  TrendingCoin
+} from './types';
+import { runWithFallback } from './marketDataProvider';
+import {
+  COINGECKO_API_KEY,
+  coinGeckoScheduler,
+  fetchCoinByContract,
+  fetchCoinDetail as fetchCoinGeckoDetail,
+  fetchHistoricalPrice as fetchCoinGeckoHistoricalPrice,
+  fetchMarketChart as fetchCoinGeckoMarketChart,
+  fetchOhlc
+} from './coinGeckoService';
+import { createMoonPayWidgetURL, openMoonPayWidget } from './moonpayService';
+import { deleteEntry, loadEntries, saveEntry } from './cacheStorage';
+import { coalesceRequest, createAbortError, isAbortError } from './requestCoalescing';
+import { RateLimitError, isRateLimitError, parseRetryDelay } from './rateLimitScheduler';
+import { CircuitOpenError, addToBlacklist, canRequest, isBlacklisted, withCircuitBreaker } from './providerHealth';
+import { formatCurrencyCompact, formatPrice, formatPriceChange } from './formatting';
+import { evaluateAlerts } from './priceAlerts';
+import { loadCoinIndex, searchCoinIndex } from './coinIndex';
+import { detectContractAddress, platformsFor, type ContractAddress } from './contractAddress';
+import { fetchOnChainToken, type OnChainToken } from './onChainToken';
+import { GODD_MINT } from './solanaRpc';
+import { resolveTokenMetadata } from './tokenMetadata';
+
+export type {
+  CoinData,
+  CoinDetail,
+  CoinLinks,
+  CoinPlatform,
+  CurrencyOption,
+  MarketChartDays,
+  MarketChartPoint,
+  OhlcCandle,
+  SearchResultItem,
+  SearchResultContract,
+  TrendingCoin
+} from './types';
+export type { OnChainToken } from './onChainToken';
+export { createMoonPayWidgetURL, openMoonPayWidget, type MoonPayWidgetOptions } from './moonpayService';
+export { isAbortError } from './requestCoalescing';
+export {
+  currencies,
+  formatCompactNumber,
+  formatCurrencyCompact,
+  formatDate,
+  formatPrice,
+  formatPriceChange,
+  getCurrencySymbol,
+  getFormatLocale,
+  setFormatLocale
+} from './formatting';
 
-// Available currencies with their symbols
-export const currencies: Record<string, CurrencyOption> = {
-  'usd': { symbol: '$', name: 'US Dollar' },
-  'eur': { symbol: '€', name: 'Euro' },
-  'gbp': { symbol: '£', name: 'British Pound' },
-  'jpy': { symbol: '¥', name: 'Japanese Yen' },
-  'btc': { symbol: '₿', name: 'Bitcoin' },
-  'eth': { symbol: 'Ξ', name: 'Ethereum' }
+// Type for cached API data
+type CachedData<T> = {
+  data: T;
+  timestamp: number; // When the data was fetched
+  ttl: number; // How long the data stays fresh, in milliseconds
+  lastAccess: number; // Used for LRU eviction
+  size: number; // Approximate serialized size in bytes
+  stale?: boolean; // Set for entries restored from storage until they are refreshed
 };
 
-// Service configuration
-const API_BASE_URL = 'https://api.coingecko.com/api/v3';
-const MOONPAY_API_BASE_URL = 'https://api.moonpay.com/v3';
-const COINGECKO_API_KEY = import.meta.env.VITE_COINGECKO_API_KEY || ''; // CoinGecko API key from env
-const MOONPAY_API_KEY = import.meta.env.VITE_MOONPAY_API_KEY || ''; // MoonPay API key from env
+// Per-key freshness windows for API data
+export const CACHE_TTL_MS = {
+  default: 5 * 60 * 1000, // 5 minutes
+  trending: 15 * 60 * 1000, // Trending lists change slowly
+  search: 30 * 60 * 1000,
+  chart: 10 * 60 * 1000,
+  longChart: 60 * 60 * 1000, // 1Y and Max charts
+  history: 7 * 24 * 60 * 60 * 1000, // Prices of past days don't change
+};
 
-// API rate limiting management
-const API_BACKOFF_MS = 2000; // Backoff time when rate limited
-const MAX_RETRIES = 3; // Maximum number of retries for API calls
+// Maximum age of stale data we are still willing to show while refreshing
+const MAX_STALE_AGE_MS = 24 * 60 * 60 * 1000;
 
-// Type for cached API data
-type CachedData<T> = { data: T; timestamp: number };
+// Approximate storage budget for persisted API data
+const MAX_CACHE_BYTES = 4 * 1024 * 1024;
 
-// Advanced caching system for images and API responses
+// Advanced caching system for images and API responses, persisted to IndexedDB
 class CryptoCache {
   private imageCache: Map<string, string> = new Map();
   private apiCache: Map<string, CachedData<unknown>> = new Map();
   private apiCallAttempts: Map<string, number> = new Map(); // Track API call attempts by coin ID
-  private rateLimitedUntil: number = 0; // Timestamp until rate limit expires
-  private cacheExpiry: number = 5 * 60 * 1000; // 5 minutes by default
   private apiCooldown: number = 60 * 1000; // 1 minute cooldown between API calls for the same coin
-  private coinBlacklist: Set<string> = new Set(); // Blacklist for problematic coin IDs
+  private totalBytes: number = 0; // Running total of cached API data size
+  readonly ready: Promise<void>; // Resolves once persisted entries have been restored
+
+  constructor() {
+    this.ready = this.hydrate();
+  }
+
+  // Restore persisted entries; everything restored is served as stale until refreshed
+  private async hydrate(): Promise<void> {
+    const [apiEntries, imageEntries] = await Promise.all([
+      loadEntries<CachedData<unknown>>('api'),
+      loadEntries<string>('images')
+    ]);
+
+    const now = Date.now();
+    for (const { key, value } of apiEntries) {
+      if (this.apiCache.has(key)) continue;
+      if (now - value.timestamp > MAX_STALE_AGE_MS) {
+        deleteEntry('api', key);
+        continue;
+      }
+      this.apiCache.set(key, { ...value, stale: true });
+      this.totalBytes += value.size;
+    }
+
+    for (const { key, value } of imageEntries) {
+      // Drop paths saved by the old local icon map, which pointed at files the build never had
+      if (value.startsWith('/src/images/')) {
+        deleteEntry('images', key);
+        continue;
+      }
+      if (!this.imageCache.has(key)) {
+        this.imageCache.set(key, value);
+      }
+    }
+
+    this.evictOverBudget();
+  }
 
   // Set an image in the cache
   setImageUrl(coinId: string, url: string): void {
-    this.imageCache.set(coinId.toLowerCase(), url);
+    const key = coinId.toLowerCase();
+    if (this.imageCache.get(key) === url) return;
+    this.imageCache.set(key, url);
+    saveEntry('images', key, url);
   }
 
   // Get an image from the cache
@@ -143,55 +145,75 @@ class CryptoCache {
     return this.imageCache.get(coinId.toLowerCase());
   }
 
-  // Set API data in the cache
-  setApiData<T>(key: string, data: T): void {
-    this.apiCache.set(key, {
+  // Set API data in the cache with an optional per-key TTL, dated when it was fetched
+  setApiData<T>(key: string, data: T, ttl: number = CACHE_TTL_MS.default, fetchedAt: number = Date.now()): void {
+    const now = Date.now();
+    const entry: CachedData<T> = {
       data,
-      timestamp: Date.now()
-    });
+      timestamp: fetchedAt,
+      ttl,
+      lastAccess: now,
+      size: JSON.stringify(data)?.length || 0
+    };
+
+    this.removeApiData(key, false);
+    this.apiCache.set(key, entry);
+    this.totalBytes += entry.size;
+    saveEntry('api', key, entry);
+    this.evictOverBudget();
   }
 
-  // Get API data from the cache with type safety
-  getApiData<T>(key: string): T | undefined {
+  // Get a fresh API entry from the cache with type safety
+  getApiEntry<T>(key: string): CachedData<T> | undefined {
     const cached = this.apiCache.get(key);
-    if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
-      return cached.data as T;
+    if (cached && !cached.stale && Date.now() - cached.timestamp < cached.ttl) {
+      cached.lastAccess = Date.now();
+      return cached as CachedData<T>;
     }
     return undefined;
   }
 
-  // Check if we're rate limited
-  isRateLimited(): boolean {
-    return Date.now() < this.rateLimitedUntil;
-  }
-
-  // Set rate limited flag with optional custom wait time in seconds
-  setRateLimited(isLimited: boolean, waitTimeSeconds?: number): void {
-    if (isLimited) {
-      // If wait time is provided, use it; otherwise default to 5 minutes
-      const waitTimeMs = waitTimeSeconds ? waitTimeSeconds * 1000 : 5 * 60 * 1000;
-      this.rateLimitedUntil = Date.now() + waitTimeMs;
-      console.warn(`CoinGecko API rate limited. Will pause API calls for ${waitTimeSeconds || 300} seconds.`);
-    } else {
-      this.rateLimitedUntil = 0;
+  // Get an API entry even if it has expired or was restored from storage
+  getStaleApiEntry<T>(key: string): CachedData<T> | undefined {
+    const cached = this.apiCache.get(key);
+    if (cached && Date.now() - cached.timestamp < MAX_STALE_AGE_MS) {
+      cached.lastAccess = Date.now();
+      return cached as CachedData<T>;
     }
+    return undefined;
   }
 
-  // Add a coin to blacklist to avoid further API calls
-  addToBlacklist(coinId: string): void {
-    this.coinBlacklist.add(coinId.toLowerCase());
-    console.log(`Added ${coinId} to API call blacklist`);
+  // Remove an API entry from memory and, optionally, from storage
+  private removeApiData(key: string, persist = true): void {
+    const existing = this.apiCache.get(key);
+    if (!existing) return;
+    this.totalBytes -= existing.size;
+    this.apiCache.delete(key);
+    if (persist) {
+      deleteEntry('api', key);
+    }
   }
 
-  // Check if a coin is blacklisted
-  isBlacklisted(coinId: string): boolean {
-    return this.coinBlacklist.has(coinId.toLowerCase());
+  // Evict least recently used entries until we are back under the storage budget
+  private evictOverBudget(): void {
+    if (this.totalBytes <= MAX_CACHE_BYTES) return;
+
+    const byLastAccess = [...this.apiCache.entries()].sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    for (const [key] of byLastAccess) {
+      if (this.totalBytes <= MAX_CACHE_BYTES) break;
+      this.removeApiData(key);
+    }
+  }
+
+  // Check if we're rate limited; shares state with every other CoinGecko request
+  isRateLimited(): boolean {
+    return coinGeckoScheduler.isRateLimited();
   }
 
   // Check if we should try an API call for this coin
   shouldTryApiCall(coinId: string): boolean {
-    // Don't try if globally rate limited or if coin is blacklisted
-    if (this.isRateLimited() || this.isBlacklisted(coinId.toLowerCase())) {
+    // Don't try if globally rate limited, the image endpoint is failing, or the coin is blacklisted
+    if (this.isRateLimited() || !canRequest('coingecko', 'coinImage') || isBlacklisted(coinId)) {
       return false;
     }
     
@@ -208,12 +230,12 @@ class CryptoCache {
     this.apiCallAttempts.set(coinId.toLowerCase(), Date.now());
   }
 
-  // Clear expired items from cache
+  // Clear items that are too old to be served even as stale data
   clearExpired(): void {
     const now = Date.now();
     for (const [key, value] of this.apiCache.entries()) {
-      if (now - value.timestamp > this.cacheExpiry) {
-        this.apiCache.delete(key);
+      if (now - value.timestamp > MAX_STALE_AGE_MS) {
+        this.removeApiData(key);
       }
     }
   }
@@ -222,8 +244,95 @@ class CryptoCache {
 // Initialize cache
 const cache = new CryptoCache();
 
-// Default placeholder image path
-const DEFAULT_PLACEHOLDER = '/public/placeholder.svg';
+// Whether CoinGecko has asked us to back off, so callers can hold off on polling
+export const isRateLimited = (): boolean => cache.isRateLimited();
+
+// Data served by revalidateCached, with when it was fetched
+interface ServedData<T> {
+  data: T;
+  fetchedAt: number;
+  stale: boolean; // Expired or restored from storage, and being refreshed in the background
+}
+
+// Serve fresh cached data, or stale data while refreshing in the background,
+// and only wait on the network when nothing usable is cached.
+// Concurrent loads of a key share one request, and only a load that completes writes the cache.
+// A ttl function can pick the lifetime from the data; returning 0 leaves the result uncached.
+async function revalidateCached<T>(
+  key: string,
+  ttl: number | ((data: T) => number),
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<ServedData<T>> {
+  await cache.ready;
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  const fresh = cache.getApiEntry<T>(key);
+  if (fresh !== undefined) {
+    return { data: fresh.data, fetchedAt: fresh.timestamp, stale: false };
+  }
+
+  const load = async (sharedSignal: AbortSignal): Promise<ServedData<T>> => {
+    const data = await fetcher(sharedSignal);
+    const fetchedAt = Date.now();
+    const entryTtl = typeof ttl === 'function' ? ttl(data) : ttl;
+    if (entryTtl > 0) {
+      cache.setApiData<T>(key, data, entryTtl, fetchedAt);
+    }
+    return { data, fetchedAt, stale: false };
+  };
+
+  const stale = cache.getStaleApiEntry<T>(key);
+  if (stale !== undefined) {
+    // The background refresh belongs to no caller, so it is never cancelled
+    coalesceRequest(key, load).catch(error => console.warn(`Background refresh failed for ${key}`, error));
+    return { data: stale.data, fetchedAt: stale.timestamp, stale: true };
+  }
+
+  return coalesceRequest(key, load, signal);
+}
+
+// revalidateCached for callers that only need the data
+async function staleWhileRevalidate<T>(
+  key: string,
+  ttl: number | ((data: T) => number),
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  return (await revalidateCached(key, ttl, fetcher, signal)).data;
+}
+
+// Check price alerts against quotes loaded from the network or a live tick, then pass them through.
+// Alerts are edge-triggered, so seeing the same quotes again doesn't refire them. Stale cached quotes,
+// which can be a day old after a reload, and made-up fallback quotes are never checked.
+export const withAlertsChecked = (coins: CoinData[], currency: string, quotedAt?: number): CoinData[] => {
+  try {
+    evaluateAlerts(coins, currency, quotedAt);
+  } catch (error) {
+    console.warn('Price alert evaluation failed', error);
+  }
+  return coins;
+};
+
+// Default placeholder image, served from public/ under the app's base path
+const DEFAULT_PLACEHOLDER = `${import.meta.env.BASE_URL}placeholder.svg`;
+
+// Coin IDs of Solana tokens whose logos come from their Metaplex metadata
+const SOLANA_TOKEN_MINTS: Record<string, string> = {
+  'godd': GODD_MINT,
+  'godsdollar': GODD_MINT,
+};
+
+// Mint of a Solana token by coin ID; unlisted tokens use their mint as their ID
+export const getSolanaTokenMint = (coinId: string): string | undefined => {
+  const mint = SOLANA_TOKEN_MINTS[coinId.toLowerCase()];
+  if (mint) return mint;
+
+  const contract = detectContractAddress(coinId);
+  return contract?.chain === 'solana' ? contract.address : undefined;
+};
 
 // Helper function to get cryptocurrency images with fallbacks and caching
 export const getCryptoImageUrl = (code: string): string => {
@@ -237,55 +346,18 @@ export const getCryptoImageUrl = (code: string): string => {
     return cachedUrl;
   }
   
-  // Special case for Gods Dollar
-  if (coinId === 'godd') {
-    const url = '/src/images/main.png';
-    cache.setImageUrl(coinId, url);
-    return url;
-  }
-  
-  // Prioritize local images for common cryptocurrencies
-  // Expanded collection of common crypto icons
-  const localImageMap: Record<string, string> = {
-    // Core cryptocurrencies
-    btc: '/src/images/crypto/bitcoin.png',
-    eth: '/src/images/crypto/ethereum.png',
-    sol: '/src/images/crypto/solana.png',
-    usdc: '/src/images/crypto/usdc.png',
-    usdt: '/src/images/crypto/tether.png',
-    bnb: '/src/images/crypto/binance.png',
-    xrp: '/src/images/crypto/xrp.png',
-    ada: '/src/images/crypto/cardano.png',
-    doge: '/src/images/crypto/dogecoin.png',
-    dot: '/src/images/crypto/polkadot.png',
-    link: '/src/images/crypto/chainlink.png',
-    avax: '/src/images/crypto/avalanche.png',
-    shib: '/src/images/crypto/shiba.png',
-    
-    // When code is a symbol, provide mapping to common IDs
-    'bitcoin': '/src/images/crypto/bitcoin.png',
-    'ethereum': '/src/images/crypto/ethereum.png',
-    'solana': '/src/images/crypto/solana.png',
-    'usd-coin': '/src/images/crypto/usdc.png',
-    'tether': '/src/images/crypto/tether.png',
-    'binancecoin': '/src/images/crypto/binance.png',
-    'ripple': '/src/images/crypto/xrp.png',
-    'cardano': '/src/images/crypto/cardano.png',
-    'dogecoin': '/src/images/crypto/dogecoin.png',
-    'polkadot': '/src/images/crypto/polkadot.png',
-    'chainlink': '/src/images/crypto/chainlink.png',
-    'avalanche-2': '/src/images/crypto/avalanche.png',
-    'shiba-inu': '/src/images/crypto/shiba.png',
-    'wrapped-bitcoin': '/src/images/crypto/bitcoin.png', // Use BTC image for WBTC
-    'staked-ether': '/src/images/crypto/ethereum.png', // Use ETH image for stETH
-    'wrapped-steth': '/src/images/crypto/ethereum.png', // Use ETH image for wstETH
-  };
-  
-  // Check if we have a local image for this cryptocurrency
-  if (localImageMap[coinId]) {
-    const url = localImageMap[coinId];
-    cache.setImageUrl(coinId, url);
-    return url;
+  // Solana tokens read their logo from the chain. The lookup runs in the background and caches the URL
+  // for later calls; components showing the placeholder meanwhile update through useTokenMetadata.
+  const mint = getSolanaTokenMint(code);
+  if (mint) {
+    resolveTokenMetadata(mint)
+      .then(metadata => {
+        if (metadata?.image) {
+          cache.setImageUrl(coinId, metadata.image);
+        }
+      })
+      .catch(error => console.warn(`Could not resolve metadata for ${mint}`, error));
+    return DEFAULT_PLACEHOLDER;
   }
   
   // Try to fetch from CoinGecko using their standard API image format
@@ -342,44 +414,36 @@ export const getCryptoImageUrl = (code: string): string => {
     // Use a more robust approach with headers and proper error handling
     const tryFetchCoinData = async () => {
       try {
-        // Skip known problematic coins
-        const problemCoins = ['fartcoin', 'zerebro', 'grass', 'pepe', 'official-trump', 'dogwifcoin', 'deep', 
-                             'pi-network', 'the-open-network', 'leo-token', 'mantra-dao', 'zora', 'sui', 'ondo-finance'];
-        if (problemCoins.includes(coinId)) {
-          console.log(`Skipping API call for known problematic coin: ${coinId}`);
-          // Add to blacklist for future reference
-          cache.addToBlacklist(coinId);
-          return null;
-        }
-        
         // Mark that we've tried an API call for this coin to avoid repeating failed requests
         cache.markApiCallAttempt(coinId);
         
-        const response = await fetch(apiCoinUrl, {
-          headers: {
-            'x-cg-pro-api-key': COINGECKO_API_KEY,
-            'Accept': 'application/json'
-          }
-        });
-        
-        if (response.status === 429) {
-          console.warn('Rate limited by CoinGecko API, will use fallback images');
-          
-          // Get the reset time from headers or use default
-          const resetTime = response.headers.get('x-ratelimit-reset');
-          const waitTime = resetTime ? parseInt(resetTime) : 60; // default to 60 seconds if no header is present
-          console.warn(`Rate limit reached, waiting for ${waitTime} seconds before retrying`);
-          
-          // Set a global rate limit flag for the exact time specified by the API
-          cache.setRateLimited(true, waitTime);
-          return null;
-        }
+        // Image lookups are background work, so they queue behind visible widgets and are not retried
+        const response = await withCircuitBreaker('coingecko', 'coinImage', () =>
+          coinGeckoScheduler.schedule(async () => {
+            const result = await fetch(apiCoinUrl, {
+              headers: {
+                'x-cg-pro-api-key': COINGECKO_API_KEY,
+                'Accept': 'application/json'
+              }
+            });
+            
+            // The scheduler pauses all CoinGecko traffic for as long as the API asks
+            if (result.status === 429) {
+              throw new RateLimitError(parseRetryDelay(result.headers));
+            }
+            // Server errors count against the circuit breaker
+            if (result.status >= 500) {
+              throw new Error(`API error: ${result.status}`);
+            }
+            return result;
+          }, { priority: 'low', retries: 0 })
+        );
         
         // Handle 400/404 errors gracefully for invalid coin IDs
         if (response.status === 400 || response.status === 404) {
           console.log(`Coin ID not found in CoinGecko: ${coinId}`);
-          // Add to blacklist to avoid future API calls
-          cache.addToBlacklist(coinId);
+          // Blacklist it for a while to avoid repeating the call
+          addToBlacklist(coinId);
           return null;
         }
         
@@ -394,9 +458,14 @@ export const getCryptoImageUrl = (code: string): string => {
           return imageUrl;
         }
       } catch (error) {
-        console.warn(`Error fetching coin data for ${coinId}`, error);
-        // If we get consistent errors for this coin, blacklist it
-        cache.addToBlacklist(coinId);
+        if (isRateLimitError(error)) {
+          console.warn('Rate limited by CoinGecko API, will use fallback images');
+          return null;
+        }
+        // Outages are tracked by the circuit breaker rather than blamed on the coin
+        if (!(error instanceof CircuitOpenError)) {
+          console.warn(`Error fetching coin data for ${coinId}`, error);
+        }
       }
       return null;
     };
@@ -459,58 +528,6 @@ export const getCryptoImageUrl = (code: string): string => {
   return url;
 };
 
-// Format price with appropriate precision
-export const formatPrice = (price: number): string => {
-  if (price === undefined || price === null) return '$0';
-  
-  if (price >= 1000) {
-    return `$${(price).toFixed(0).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
-  } else if (price >= 1) {
-    return `$${price.toFixed(2)}`;
-  } else {
-    return `$${price.toFixed(6)}`;
-  }
-};
-
-// Format price change with sign
-export const formatPriceChange = (change: number): string => {
-  if (change === undefined || change === null) return '0%';
-  
-  const sign = change >= 0 ? '+' : '';
-  return `${sign}${change.toFixed(2)}%`;
-};
-
-// Format number with compact representation (K, M, B, T)
-export const formatCompactNumber = (num: number): string => {
-  if (num === undefined || num === null) return '0';
-  
-  if (num >= 1e12) return (num / 1e12).toFixed(2) + 'T';
-  if (num >= 1e9) return (num / 1e9).toFixed(2) + 'B';
-  if (num >= 1e6) return (num / 1e6).toFixed(2) + 'M';
-  if (num >= 1e3) return (num / 1e3).toFixed(2) + 'K';
-  
-  return num.toFixed(2);
-};
-
-// Get currency symbol based on currency code
-export const getCurrencySymbol = (currency: string): string => {
-  return currencies[currency]?.symbol || currency.toUpperCase() + ' ';
-};
-
-// MoonPay specific functions for on-ramp integration
-export interface MoonPayWidgetOptions {
-  apiKey: string;
-  currencyCode?: string;
-  baseCurrencyCode?: string;
-  baseCurrencyAmount?: number;
-  email?: string;
-  walletAddress?: string;
-  colorCode?: string;
-  redirectURL?: string;
-  showOnlyCurrencies?: string[];
-  language?: string;
-}
-
 // Convert internal coin ID to MoonPay currency code
 export const getMoonPayCurrencyCode = (coinId: string): string => {
   // Map common CoinGecko IDs to MoonPay currency codes
@@ -532,302 +549,227 @@ export const getMoonPayCurrencyCode = (coinId: string): string => {
   return moonPayCodeMap[coinId] || coinId;
 };
 
-// Create a MoonPay widget URL for buying cryptocurrencies
-export const createMoonPayWidgetURL = (options: MoonPayWidgetOptions): string => {
-  const baseURL = 'https://buy.moonpay.com';
-  const urlParams = new URLSearchParams();
-  
-  // Required parameter
-  urlParams.append('apiKey', options.apiKey);
-  
-  // Optional parameters
-  if (options.currencyCode) urlParams.append('currencyCode', options.currencyCode);
-  if (options.baseCurrencyCode) urlParams.append('baseCurrencyCode', options.baseCurrencyCode);
-  if (options.baseCurrencyAmount) urlParams.append('baseCurrencyAmount', options.baseCurrencyAmount.toString());
-  if (options.email) urlParams.append('email', options.email);
-  if (options.walletAddress) urlParams.append('walletAddress', options.walletAddress);
-  if (options.colorCode) urlParams.append('colorCode', options.colorCode);
-  if (options.redirectURL) urlParams.append('redirectURL', options.redirectURL);
-  if (options.showOnlyCurrencies) urlParams.append('showOnlyCurrencies', options.showOnlyCurrencies.join(','));
-  if (options.language) urlParams.append('language', options.language);
-
-  return `${baseURL}?${urlParams.toString()}`;
-};
-
-// Open MoonPay widget in a new window
-export const openMoonPayWidget = (options: MoonPayWidgetOptions): Window | null => {
-  const url = createMoonPayWidgetURL(options);
-  return window.open(url, '_blank', 'width=600,height=600');
+// Resolve display images for coins returned by any provider
+const withImages = <T extends CoinData>(coins: T[]): T[] => {
+  return coins.map(coin => ({ ...coin, image: getCryptoImageUrl(coin.id) }));
 };
 
-// Helper function to handle CoinGecko API rate limiting
-async function fetchWithRetry<T>(
-  url: string, 
-  options: AxiosRequestConfig = {}, 
-  retries = 0
-): Promise<T> {
+// Fetch cryptocurrency data using robust error handling and caching.
+// Like every fetch below, it rejects with an AbortError once the signal aborts instead of returning fallback data.
+export const fetchTopCoins = async (
+  currency: string = 'usd',
+  limit: number = 6,
+  signal?: AbortSignal
+): Promise<CoinData[]> => {
   try {
-    // Add CoinGecko API key to the headers if not already present
-    const headers = {
-      ...(options.headers || {}),
-      'x-cg-api-key': COINGECKO_API_KEY,
-    };
-    
-    // Create new options with updated headers
-    const enhancedOptions = {
-      ...options,
-      headers
-    };
-    
-    const response: AxiosResponse<T> = await axios.get(url, enhancedOptions);
-    return response.data;
-  } catch (error) {
-    // Check if it's a rate limit error (429)
-    if (axios.isAxiosError(error) && error.response?.status === 429) {
-      if (retries < MAX_RETRIES) {
-        console.warn(`Rate limited by CoinGecko API. Retrying in ${API_BACKOFF_MS}ms...`);
-        await new Promise(resolve => setTimeout(resolve, API_BACKOFF_MS));
-        return fetchWithRetry<T>(url, options, retries + 1);
-      }
-    }
-    throw error;
-  }
-}
-
-// Fetch cryptocurrency data using robust error handling and caching
-export const fetchTopCoins = async (currency: string = 'usd', limit: number = 6): Promise<CoinData[]> => {
-  try {
-    // Check cache first
-    const cacheKey = `top_coins_${currency}_${limit}`;
-    const cachedData = cache.getApiData<CoinData[]>(cacheKey);
-    
-    if (cachedData) {
-      return cachedData;
-    }
-    
-    // If no cached data, fetch from API with fallback strategy
-    try {
-      // First try CoinGecko API with the correct endpoints
-      // Use the /coins/markets endpoint as recommended in the docs
-      const params = {
-        vs_currency: currency,
-        order: 'market_cap_desc', // Sort by market cap descending
-        per_page: limit,
-        page: 1,
-        sparkline: false,
-        price_change_percentage: '24h',
-      };
-      
-      const data = await fetchWithRetry<CoinGeckoMarketData[]>(
-        `${API_BASE_URL}/coins/markets`, 
-        { params, timeout: 5000 }
-      );
-      
-      const coins = data.map((coin: CoinGeckoMarketData) => ({
-        id: coin.id,
-        symbol: coin.symbol,
-        name: coin.name,
-        image: getCryptoImageUrl(coin.id), // Use our enhanced image function
-        current_price: coin.current_price,
-        price_change_percentage_24h: coin.price_change_percentage_24h,
-        market_cap: coin.market_cap,
-        market_cap_rank: coin.market_cap_rank,
-        total_volume: coin.total_volume,
-        high_24h: coin.high_24h,
-        low_24h: coin.low_24h,
-      }));
-      
-      // Cache the results
-      cache.setApiData<CoinData[]>(cacheKey, coins);
-      return coins;
-      
-    } catch (coingeckoError) {
-      console.warn('CoinGecko API failed, falling back to MoonPay API', coingeckoError);
-      
-      // Fallback to MoonPay if CoinGecko fails
-      const response = await axios.get<MoonPayCurrency[]>(`${MOONPAY_API_BASE_URL}/currencies`, {
-        headers: {
-          'Authorization': `Api-Key ${MOONPAY_API_KEY}`
-        },
-        params: {
-          type: 'crypto',
-          limit,
-        },
-        timeout: 5000, // 5 seconds timeout
-      });
-      
-      // Transform MoonPay API response
-      const coins = response.data.map((coin: MoonPayCurrency) => ({
-        id: coin.code,
-        symbol: coin.code,
-        name: coin.name,
-        image: getCryptoImageUrl(coin.code),
-        current_price: coin.price || 0,
-        price_change_percentage_24h: coin.change24Hour || 0,
-        market_cap: coin.marketCap || 0,
-        market_cap_rank: coin.rank || 0,
-        total_volume: coin.volume24Hour || 0,
-      }));
-      
-      // Cache the results
-      cache.setApiData<CoinData[]>(cacheKey, coins);
-      return coins;
-    }
+    const { data: coins, fetchedAt, stale } = await revalidateCached(`top_coins_${currency}_${limit}`, CACHE_TTL_MS.default, async sharedSignal =>
+      withImages(await runWithFallback(
+        'fetchTopCoins',
+        'top coins',
+        provider => provider.fetchTopCoins(currency, limit, sharedSignal),
+        undefined,
+        currency
+      )),
+      signal
+    );
+    return stale ? coins : withAlertsChecked(coins, currency, fetchedAt);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Error fetching top coins, using fallback data:', error);
-    return getFallbackCoins(); // Provide fallback data when all API calls fail
+    return getFallbackCoins(currency); // Provide fallback data when all API calls fail
   }
 };
 
 // Fetch trending cryptocurrencies with robust error handling
-export const fetchTrendingCoins = async (): Promise<TrendingCoin[]> => {
+export const fetchTrendingCoins = async (signal?: AbortSignal): Promise<TrendingCoin[]> => {
   try {
-    // Check cache first
-    const cacheKey = 'trending_coins';
-    const cachedData = cache.getApiData<TrendingCoin[]>(cacheKey);
-    
-    if (cachedData) {
-      return cachedData;
-    }
-    
-    // Try CoinGecko API first with the /search/trending endpoint
-    try {
-      const response = await fetchWithRetry<TrendingResponse>(`${API_BASE_URL}/search/trending`);
-      
-      // Cache the results
-      cache.setApiData<TrendingCoin[]>(cacheKey, response.coins);
+    return await staleWhileRevalidate('trending_coins', CACHE_TTL_MS.trending, async sharedSignal => {
+      const response = await runWithFallback('fetchTrendingCoins', 'trending coins', provider => provider.fetchTrendingCoins(sharedSignal));
       
       // Enhance with better images
-      return response.coins.map((coin: TrendingCoin) => ({
+      return response.map((coin: TrendingCoin) => ({
         item: {
           ...coin.item,
           thumb: getCryptoImageUrl(coin.item.id),
           small: getCryptoImageUrl(coin.item.id)
         }
       }));
-      
-    } catch (coingeckoError) {
-      console.warn('CoinGecko trending API failed, falling back to MoonPay API', coingeckoError);
-      
-      // Fallback to MoonPay if CoinGecko fails
-      const response = await axios.get<MoonPayCurrency[]>(`${MOONPAY_API_BASE_URL}/currencies`, {
-        headers: {
-          'Authorization': `Api-Key ${MOONPAY_API_KEY}`
-        },
-        params: {
-          type: 'crypto',
-          sort: 'popularity',
-          limit: 4
-        }
-      });
-      
-      // Transform MoonPay API response to match TrendingCoin interface
-      const trendingCoins = response.data.map((coin: MoonPayCurrency, index: number) => ({
-        item: {
-          id: coin.code,
-          name: coin.name,
-          symbol: coin.code.toUpperCase(),
-          thumb: getCryptoImageUrl(coin.code),
-          small: getCryptoImageUrl(coin.code),
-          price_btc: coin.btcRate || 0,
-          score: index + 1,
-        }
-      }));
-      
-      // Cache the results
-      cache.setApiData<TrendingCoin[]>(cacheKey, trendingCoins);
-      return trendingCoins;
-    }
+    }, signal);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Error fetching trending coins, using fallback data:', error);
     return getFallbackTrendingCoins(); // Provide fallback data when all API calls fail
   }
 };
 
 // Get data for a specific coin with robust error handling
-export const fetchCoinData = async (coinId: string, currency: string = 'usd'): Promise<CoinData | null> => {
+export const fetchCoinData = async (
+  coinId: string,
+  currency: string = 'usd',
+  signal?: AbortSignal
+): Promise<CoinData | null> => {
   try {
-    // Check cache first
-    const cacheKey = `coin_${coinId}_${currency}`;
-    const cachedData = cache.getApiData<CoinData>(cacheKey);
-    
-    if (cachedData) {
-      return cachedData;
-    }
-    
-    // Try CoinGecko API first
-    try {
-      const data = await fetchWithRetry<CoinGeckoDetailResponse>(`${API_BASE_URL}/coins/${coinId}`, {
-        params: {
-          localization: false,
-          tickers: false,
-          market_data: true,
-          community_data: false,
-          developer_data: false
-        }
-      });
-      
-      const coinData: CoinData = {
-        id: data.id,
-        symbol: data.symbol,
-        name: data.name,
-        image: getCryptoImageUrl(data.id),
-        current_price: data.market_data?.current_price[currency] || 0,
-        price_change_percentage_24h: data.market_data?.price_change_percentage_24h || 0,
-        market_cap: data.market_data?.market_cap[currency] || 0,
-        market_cap_rank: data.market_cap_rank || 0,
-        total_volume: data.market_data?.total_volume[currency] || 0,
-        high_24h: data.market_data?.high_24h[currency] || 0,
-        low_24h: data.market_data?.low_24h[currency] || 0
-      };
-      
-      // Cache the results
-      cache.setApiData<CoinData>(cacheKey, coinData);
-      return coinData;
-      
-    } catch (coingeckoError) {
-      console.warn(`CoinGecko API failed for ${coinId}, falling back to MoonPay API`, coingeckoError);
-      
-      // Fallback to MoonPay API
-      const response = await axios.get<MoonPayCurrency>(`${MOONPAY_API_BASE_URL}/currencies/${coinId}`, {
-        headers: {
-          'Authorization': `Api-Key ${MOONPAY_API_KEY}`
-        }
-      });
-      
-      if (response.data) {
-        const coin = response.data;
-        const coinData: CoinData = {
-          id: coin.code,
-          symbol: coin.code,
-          name: coin.name,
-          image: getCryptoImageUrl(coin.code),
-          current_price: coin.price || 0,
-          price_change_percentage_24h: coin.change24Hour || 0,
-          market_cap: coin.marketCap || 0,
-          market_cap_rank: coin.rank || 0,
-          total_volume: coin.volume24Hour || 0
-        };
-        
-        // Cache the results
-        cache.setApiData<CoinData>(cacheKey, coinData);
-        return coinData;
-      }
+    const { data: coin, fetchedAt, stale } = await revalidateCached(`coin_${coinId}_${currency}`, CACHE_TTL_MS.default, async sharedSignal => {
+      const data = await runWithFallback(
+        'fetchCoinData',
+        `coin ${coinId}`,
+        provider => provider.fetchCoinData(coinId, currency, sharedSignal),
+        undefined,
+        currency
+      );
+      return withImages([data])[0];
+    }, signal);
+    if (coin && !stale) {
+      withAlertsChecked([coin], currency, fetchedAt);
     }
-    
-    // If both APIs fail, return null
-    return null;
+    return coin;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error(`Error fetching coin ${coinId}:`, error);
     
     // For common coins, return fallback data
-    const fallbackCoin = getFallbackCoins().find(coin => coin.id === coinId);
+    const fallbackCoin = getFallbackCoins(currency).find(coin => coin.id === coinId);
     return fallbackCoin || null;
   }
 };
 
-// Fallback data for when APIs fail
-function getFallbackCoins(): CoinData[] {
+// Get quotes for a set of coins, e.g. a watchlist, in one batched request.
+// Results follow the order of coinIds; coins the providers don't know are left out.
+export const fetchCoinsByIds = async (
+  coinIds: string[],
+  currency: string = 'usd',
+  signal?: AbortSignal
+): Promise<CoinData[]> => {
+  if (coinIds.length === 0) return [];
+
+  // Sort the IDs for the cache key so the same set shares an entry whatever its order
+  const key = `coins_${currency}_${[...coinIds].sort().join(',')}`;
+
+  try {
+    const { data: coins, fetchedAt, stale } = await revalidateCached(key, CACHE_TTL_MS.default, async sharedSignal =>
+      withImages(await runWithFallback(
+        'fetchCoinsByIds',
+        `${coinIds.length} coins`,
+        provider => provider.fetchCoinsByIds(coinIds, currency, sharedSignal),
+        result => result.length > 0,
+        currency
+      )),
+      signal
+    );
+    if (!stale) {
+      withAlertsChecked(coins, currency, fetchedAt);
+    }
+    const byId = new Map(coins.map(coin => [coin.id, coin]));
+    return coinIds.map(id => byId.get(id)).filter((coin): coin is CoinData => coin !== undefined);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Error fetching coins by ID:', error);
+    return getFallbackCoins(currency).filter(coin => coinIds.includes(coin.id));
+  }
+};
+
+// Get the full profile of a coin for its detail page; null when it can't be loaded
+export const fetchCoinDetail = async (
+  coinId: string,
+  currency: string = 'usd',
+  signal?: AbortSignal
+): Promise<CoinDetail | null> => {
+  try {
+    return await staleWhileRevalidate(`coin_detail_${coinId}_${currency}`, CACHE_TTL_MS.default, async sharedSignal =>
+      withImages([await fetchCoinGeckoDetail(coinId, currency, sharedSignal)])[0],
+      signal
+    );
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`Error fetching details for ${coinId}:`, error);
+    return null;
+  }
+};
+
+// Longer ranges change slowly, so they can be cached for longer
+export const chartTtl = (days: MarketChartDays): number => {
+  return days === 'max' || days > 90 ? CACHE_TTL_MS.longChart : CACHE_TTL_MS.chart;
+};
+
+// Get the price of a coin on a day (YYYY-MM-DD, UTC): the live quote for today, the daily history before that.
+// Null when no price is known, e.g. for a day before the coin was listed.
+export const fetchPriceOnDate = async (
+  coinId: string,
+  day: string,
+  currency: string = 'usd',
+  signal?: AbortSignal
+): Promise<number | null> => {
+  if (day >= new Date().toISOString().slice(0, 10)) {
+    const coin = await fetchCoinData(coinId, currency, signal);
+    return coin ? coin.current_price : null;
+  }
+
+  try {
+    return await staleWhileRevalidate(`price_history_${coinId}_${day}_${currency}`, CACHE_TTL_MS.history, sharedSignal =>
+      fetchCoinGeckoHistoricalPrice(coinId, day, currency, sharedSignal),
+      signal
+    );
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`Error fetching the ${day} price of ${coinId}:`, error);
+    return null;
+  }
+};
+
+// Get historical price data for a coin over the given number of days
+export const fetchMarketChart = async (
+  coinId: string,
+  currency: string = 'usd',
+  days: MarketChartDays = 7,
+  signal?: AbortSignal
+): Promise<MarketChartPoint[]> => {
+  try {
+    return await staleWhileRevalidate(`market_chart_${coinId}_${currency}_${days}`, chartTtl(days), sharedSignal =>
+      fetchCoinGeckoMarketChart(coinId, currency, days, sharedSignal),
+      signal
+    );
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`Error fetching market chart for ${coinId}:`, error);
+    return [];
+  }
+};
+
+// Get OHLC candles for a coin, with volume taken from the market chart at each candle's close
+export const fetchOhlcCandles = async (
+  coinId: string,
+  currency: string = 'usd',
+  days: MarketChartDays = 7,
+  signal?: AbortSignal
+): Promise<OhlcCandle[]> => {
+  try {
+    return await staleWhileRevalidate(`ohlc_${coinId}_${currency}_${days}`, chartTtl(days), async sharedSignal => {
+      const [candles, chart] = await Promise.all([
+        fetchOhlc(coinId, currency, days, sharedSignal),
+        fetchMarketChart(coinId, currency, days, sharedSignal)
+      ]);
+      
+      // Both series are sorted by time, so walk them together
+      let chartIndex = 0;
+      return candles.map(candle => {
+        while (chartIndex < chart.length - 1 && chart[chartIndex + 1].timestamp <= candle.timestamp) {
+          chartIndex++;
+        }
+        return { ...candle, volume: chart[chartIndex]?.total_volume || 0 };
+      });
+    }, signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`Error fetching OHLC data for ${coinId}:`, error);
+    return [];
+  }
+};
+
+// Fallback data for when APIs fail. The prices are in USD, so other currencies get an empty list
+// rather than USD figures shown under the wrong symbol.
+function getFallbackCoins(currency: string): CoinData[] {
+  if (currency.toLowerCase() !== 'usd') return [];
+
   return [
     {
       id: "bitcoin",
@@ -946,31 +888,105 @@ function getFallbackTrendingCoins(): TrendingCoin[] {
   ];
 }
 
-// Search for cryptocurrencies
-export const searchCryptocurrencies = async (query: string): Promise<SearchResultItem[]> => {
+// What a token address resolved to: its CoinGecko listing, or failing that what the chain says about it
+export interface ContractResolution {
+  coin: SearchResultItem | null;
+  token: OnChainToken | null;
+  unverified?: boolean; // CoinGecko couldn't be asked, so a token read from the chain may still be listed
+}
+
+// Resolve a token address, trying each platform of its chain on CoinGecko before reading the chain itself.
+// Pass a platform to look only there.
+export const resolveContractAddress = async (
+  contract: ContractAddress,
+  platform?: string,
+  signal?: AbortSignal
+): Promise<ContractResolution> => {
+  const key = `contract_${platform ?? contract.chain}_${contract.address}`;
+
+  try {
+    // Unverified results aren't cached, so the next lookup asks CoinGecko again
+    const ttl = (resolution: ContractResolution) => resolution.unverified ? 0 : CACHE_TTL_MS.search;
+    return await staleWhileRevalidate(key, ttl, async sharedSignal => {
+      let unverified = false;
+      const platformIds = platform ? [platform] : platformsFor(contract.chain).map(candidate => candidate.id);
+      for (const platformId of platformIds) {
+        try {
+          const listed = await fetchCoinByContract(platformId, contract.address, sharedSignal);
+          if (listed) {
+            return {
+              coin: { ...listed, contract: { platform: platformId, address: contract.address, listed: true } },
+              token: null
+            };
+          }
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          // CoinGecko is unavailable; the chain can still tell us about the token
+          console.warn(`Contract lookup on ${platformId} failed`, error);
+          unverified = true;
+          break;
+        }
+      }
+
+      const token = await fetchOnChainToken(contract, platform, sharedSignal);
+      return {
+        coin: token && {
+          id: token.address,
+          name: token.name || 'Unknown token',
+          symbol: token.symbol || '???',
+          thumb: token.image || DEFAULT_PLACEHOLDER,
+          contract: { platform: token.platform, address: token.address, listed: false }
+        },
+        token,
+        unverified
+      };
+    }, signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`Error resolving contract ${contract.address}:`, error);
+    return { coin: null, token: null };
+  }
+};
+
+// Results returned per search
+const SEARCH_RESULT_LIMIT = 15;
+
+// Search for cryptocurrencies in the offline coin index.
+// CoinGecko's /search is only used until the index has been downloaded for the first time.
+export const searchCryptocurrencies = async (query: string, signal?: AbortSignal): Promise<SearchResultItem[]> => {
   if (!query || query.trim() === '') {
     return [];
   }
+
+  // Pasted token addresses resolve to the one coin they belong to
+  const contract = detectContractAddress(query);
+  if (contract) {
+    const { coin } = await resolveContractAddress(contract, undefined, signal);
+    return coin ? [coin] : [];
+  }
+
+  await loadCoinIndex();
+  const localResults = searchCoinIndex(query, SEARCH_RESULT_LIMIT);
+  if (localResults) {
+    return localResults.map(coin => coin.thumb ? coin : {
+      ...coin,
+      thumb: getCryptoImageUrl(coin.id),
+      small: getCryptoImageUrl(coin.id)
+    });
+  }
   
   try {
-    interface SearchResponse {
-      coins: SearchResultItem[];
-    }
-    
-    const response = await axios.get<SearchResponse>(`${API_BASE_URL}/search`, {
-      params: { query: query }
-    });
-    
-    if (response.data && response.data.coins) {
-      return response.data.coins.slice(0, 15).map((coin: SearchResultItem) => ({
+    return await staleWhileRevalidate(`search_${query.trim().toLowerCase()}`, CACHE_TTL_MS.search, async sharedSignal => {
+      const coins = await runWithFallback('searchCoins', `search "${query}"`, provider => provider.searchCoins(query, sharedSignal));
+      
+      return coins.slice(0, SEARCH_RESULT_LIMIT).map((coin: SearchResultItem) => ({
         ...coin,
         thumb: getCryptoImageUrl(coin.id),
         small: getCryptoImageUrl(coin.id)
       }));
-    }
-    
-    return [];
+    }, signal);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Error searching cryptocurrencies:', error);
     return [];
   }
@@ -981,15 +997,25 @@ setInterval(() => {
   cache.clearExpired();
 }, 60000); // Clean every minute
 
+// Load the offline search index, which then refreshes itself daily
+void loadCoinIndex();
+
 // Export default for easier importing
 export default {
   fetchTopCoins,
   fetchCoinData,
+  fetchCoinDetail,
+  fetchCoinsByIds,
   fetchTrendingCoins,
+  fetchMarketChart,
+  fetchOhlcCandles,
+  fetchPriceOnDate,
   formatPrice,
   formatPriceChange,
+  formatCurrencyCompact,
   getCryptoImageUrl,
   openMoonPayWidget,
   createMoonPayWidgetURL,
-  searchCryptocurrencies
+  searchCryptocurrencies,
+  resolveContractAddress
 };
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { Decimal } from './decimal';
+
+describe('Decimal.parse', () => {
+  it('reads plain decimal strings', () => {
+    expect(Decimal.parse('1.5').toString()).toBe('1.5');
+    expect(Decimal.parse('-0.25').toString()).toBe('-0.25');
+    expect(Decimal.parse('+7').toString()).toBe('7');
+    expect(Decimal.parse('.5').toString()).toBe('0.5');
+    expect(Decimal.parse('5.').toString()).toBe('5');
+    expect(Decimal.parse(' 0012.3400 ').toString()).toBe('12.34');
+  });
+
+  it('reads exponent notation, as String() gives for small and large numbers', () => {
+    expect(String(1.23e-7)).toBe('1.23e-7');
+    expect(Decimal.parse(String(1.23e-7)).toString()).toBe('0.000000123');
+    expect(Decimal.parse(String(1e21)).toString()).toBe('1000000000000000000000');
+    expect(Decimal.parse('1.5E+3').toString()).toBe('1500');
+    expect(Decimal.parse('-2.5e-2').toString()).toBe('-0.025');
+  });
+
+  it('rounds digits beyond 18 decimal places half away from zero', () => {
+    expect(Decimal.parse('0.0000000000000000015').toString()).toBe('0.000000000000000002');
+    expect(Decimal.parse('-0.0000000000000000015').toString()).toBe('-0.000000000000000002');
+    expect(Decimal.parse('0.0000000000000000014').toString()).toBe('0.000000000000000001');
+    expect(Decimal.parse('0.0000000000000000004').toString()).toBe('0');
+  });
+
+  it('rejects malformed input', () => {
+    for (const text of ['', '.', 'abc', '1.2.3', '1e', '--1', '0x10']) {
+      expect(() => Decimal.parse(text)).toThrow(SyntaxError);
+    }
+  });
+});
+
+describe('Decimal.from and tryParse', () => {
+  it('converts numbers through their shortest string', () => {
+    expect(Decimal.from(0.1).toString()).toBe('0.1');
+    expect(Decimal.from(1.23e-7).toString()).toBe('0.000000123');
+    expect(Decimal.from(12n).toString()).toBe('12');
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(() => Decimal.from(Number.NaN)).toThrow(RangeError);
+    expect(() => Decimal.from(Infinity)).toThrow(RangeError);
+  });
+
+  it('returns null instead of throwing', () => {
+    expect(Decimal.tryParse('')).toBeNull();
+    expect(Decimal.tryParse(undefined)).toBeNull();
+    expect(Decimal.tryParse('nope')).toBeNull();
+    expect(Decimal.tryParse('2.50')?.toString()).toBe('2.5');
+  });
+});
+
+describe('Decimal arithmetic', () => {
+  it('adds without floating point drift', () => {
+    expect(Decimal.from(0.1).plus(0.2).eq('0.3')).toBe(true);
+    expect(Decimal.sum(['0.1', '0.1', '0.1']).toString()).toBe('0.3');
+  });
+
+  it('rounds products and quotients to 18 places', () => {
+    expect(Decimal.from('1').dividedBy('3').toString()).toBe('0.333333333333333333');
+    expect(Decimal.from('2').dividedBy('3').toString()).toBe('0.666666666666666667');
+    expect(Decimal.from('1.5').times('-0.2').toString()).toBe('-0.3');
+  });
+
+  it('refuses to divide by zero', () => {
+    expect(() => Decimal.from('1').dividedBy('0')).toThrow(RangeError);
+  });
+
+  it('compares values', () => {
+    expect(Decimal.from('1.10').eq('1.1')).toBe(true);
+    expect(Decimal.from('-1').lt('0')).toBe(true);
+    expect(Decimal.min('2', '1.5').toString()).toBe('1.5');
+    expect(Decimal.max('2', '1.5').toString()).toBe('2');
+  });
+});
+
+describe('Decimal.toFixed', () => {
+  it('rounds half away from zero', () => {
+    expect(Decimal.from('1.005').toFixed(2)).toBe('1.01');
+    expect(Decimal.from('-1.005').toFixed(2)).toBe('-1.01');
+    expect(Decimal.from('1.004').toFixed(2)).toBe('1.00');
+    expect(Decimal.from('2.5').toFixed(0)).toBe('3');
+    expect(Decimal.from('0.000000125').toFixed(8)).toBe('0.00000013');
+  });
+
+  it('pads to the requested places', () => {
+    expect(Decimal.from('123').toFixed(2)).toBe('123.00');
+    expect(Decimal.from('0.5').toFixed(8)).toBe('0.50000000');
+  });
+
+  it('drops the sign when a negative value rounds to zero', () => {
+    expect(Decimal.from('-0.004').toFixed(2)).toBe('0.00');
+  });
+});
@@ -0,0 +1,176 @@
+// Exact decimal arithmetic for money and quantities, backed by bigint
+// Values are stored as integers scaled by 10^SCALE, so sums and differences never drift the way
+// floating point does. Products and quotients are rounded half away from zero back to SCALE digits.
+
+const SCALE = 18;
+const FACTOR = 10n ** BigInt(SCALE);
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+export type DecimalInput = Decimal | string | number | bigint;
+
+// Integer division rounding half away from zero
+const divideRounded = (numerator: bigint, denominator: bigint): bigint => {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) return quotient;
+
+  const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+  const absDenominator = denominator < 0n ? -denominator : denominator;
+  if (twiceRemainder < absDenominator) return quotient;
+  return (numerator < 0n) === (denominator < 0n) ? quotient + 1n : quotient - 1n;
+};
+
+export class Decimal {
+  static readonly ZERO = new Decimal(0n);
+
+  private constructor(private readonly units: bigint) {}
+
+  // Accepts decimal strings (including exponent notation), numbers and bigints
+  static from(value: DecimalInput): Decimal {
+    if (value instanceof Decimal) return value;
+    if (typeof value === 'bigint') return new Decimal(value * FACTOR);
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new RangeError(`Cannot convert ${value} to a decimal`);
+      }
+      // The shortest round-trip string, so 0.1 becomes exactly 0.1 rather than its binary approximation
+      return Decimal.parse(String(value));
+    }
+    return Decimal.parse(value);
+  }
+
+  static parse(text: string): Decimal {
+    const match = DECIMAL_PATTERN.exec(text.trim());
+    if (!match || (match[2] === '' && (match[3] === undefined || match[3] === ''))) {
+      throw new SyntaxError(`Invalid decimal: "${text}"`);
+    }
+
+    const [, sign, integerDigits, fractionDigits = '', exponentText = '0'] = match;
+    const digits = BigInt(`${integerDigits}${fractionDigits}` || '0');
+    const shift = SCALE + Number(exponentText) - fractionDigits.length;
+    const units = shift >= 0 ? digits * 10n ** BigInt(shift) : divideRounded(digits, 10n ** BigInt(-shift));
+    return new Decimal(sign === '-' ? -units : units);
+  }
+
+  // Parse without throwing; null for empty or malformed input
+  static tryParse(value: DecimalInput | null | undefined): Decimal | null {
+    if (value === null || value === undefined || value === '') return null;
+    try {
+      return Decimal.from(value);
+    } catch {
+      return null;
+    }
+  }
+
+  static sum(values: DecimalInput[]): Decimal {
+    return values.reduce<Decimal>((total, value) => total.plus(value), Decimal.ZERO);
+  }
+
+  static min(a: DecimalInput, b: DecimalInput): Decimal {
+    const left = Decimal.from(a);
+    const right = Decimal.from(b);
+    return left.lte(right) ? left : right;
+  }
+
+  static max(a: DecimalInput, b: DecimalInput): Decimal {
+    const left = Decimal.from(a);
+    const right = Decimal.from(b);
+    return left.gte(right) ? left : right;
+  }
+
+  plus(other: DecimalInput): Decimal {
+    return new Decimal(this.units + Decimal.from(other).units);
+  }
+
+  minus(other: DecimalInput): Decimal {
+    return new Decimal(this.units - Decimal.from(other).units);
+  }
+
+  times(other: DecimalInput): Decimal {
+    return new Decimal(divideRounded(this.units * Decimal.from(other).units, FACTOR));
+  }
+
+  dividedBy(other: DecimalInput): Decimal {
+    const divisor = Decimal.from(other).units;
+    if (divisor === 0n) {
+      throw new RangeError('Division by zero');
+    }
+    return new Decimal(divideRounded(this.units * FACTOR, divisor));
+  }
+
+  negated(): Decimal {
+    return new Decimal(-this.units);
+  }
+
+  abs(): Decimal {
+    return this.units < 0n ? this.negated() : this;
+  }
+
+  compare(other: DecimalInput): -1 | 0 | 1 {
+    const otherUnits = Decimal.from(other).units;
+    return this.units < otherUnits ? -1 : this.units > otherUnits ? 1 : 0;
+  }
+
+  eq(other: DecimalInput): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lt(other: DecimalInput): boolean {
+    return this.compare(other) < 0;
+  }
+
+  lte(other: DecimalInput): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  gt(other: DecimalInput): boolean {
+    return this.compare(other) > 0;
+  }
+
+  gte(other: DecimalInput): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  isPositive(): boolean {
+    return this.units > 0n;
+  }
+
+  // For display and charts only; arithmetic should stay in Decimal
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  // Shortest exact representation, e.g. 1.5 rather than 1.500000000000000000
+  toString(): string {
+    const negative = this.units < 0n;
+    const absolute = negative ? -this.units : this.units;
+    const integer = absolute / FACTOR;
+    const fraction = (absolute % FACTOR).toString().padStart(SCALE, '0').replace(/0+$/, '');
+    return `${negative ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  // Rounded to a fixed number of decimal places, e.g. for CSV export
+  toFixed(decimalPlaces: number): string {
+    const places = Math.max(0, Math.min(SCALE, Math.floor(decimalPlaces)));
+    const rounded = divideRounded(this.units, 10n ** BigInt(SCALE - places));
+    const negative = rounded < 0n;
+    const digits = (negative ? -rounded : rounded).toString().padStart(places + 1, '0');
+    const integer = digits.slice(0, digits.length - places);
+    const fraction = digits.slice(digits.length - places);
+    return `${negative ? '-' : ''}${integer}${places > 0 ? `.${fraction}` : ''}`;
+  }
+
+  // Serialized as a string so JSON round trips are exact
+  toJSON(): string {
+    return this.toString();
+  }
+}
@@ -0,0 +1,183 @@
+// Locale-aware number and currency formatting built on Intl.NumberFormat
+// Prices below SUBSCRIPT_ZERO_THRESHOLD use subscript-zero notation, e.g. $0.0₅123 for 0.00000123
+
+import type { CurrencyOption } from './types';
+
+// Available currencies with their symbols
+export const currencies: Record<string, CurrencyOption> = {
+  'usd': { symbol: '$', name: 'US Dollar', decimals: 2, type: 'fiat' },
+  'eur': { symbol: '€', name: 'Euro', decimals: 2, type: 'fiat' },
+  'gbp': { symbol: '£', name: 'British Pound', decimals: 2, type: 'fiat' },
+  'jpy': { symbol: '¥', name: 'Japanese Yen', decimals: 0, type: 'fiat' },
+  'btc': { symbol: '₿', name: 'Bitcoin', decimals: 8, type: 'crypto' },
+  'eth': { symbol: 'Ξ', name: 'Ethereum', decimals: 6, type: 'crypto' }
+};
+
+// Significant digits shown for prices below 1
+const SMALL_PRICE_SIGNIFICANT_DIGITS = 4;
+
+// Prices below this are shown with subscript-zero notation
+const SUBSCRIPT_ZERO_THRESHOLD = 0.0001;
+
+const SUBSCRIPT_DIGITS = ['₀', '₁', '₂', '₃', '₄', '₅', '₆', '₇', '₈', '₉'];
+
+let localeOverride: string | undefined;
+
+// Use a fixed locale instead of the browser's preferred language
+export const setFormatLocale = (locale: string | undefined): void => {
+  localeOverride = locale;
+  formatterCache.clear();
+};
+
+// Get the locale used for formatting
+export const getFormatLocale = (): string => {
+  if (localeOverride) return localeOverride;
+  if (typeof navigator !== 'undefined') {
+    return navigator.languages?.[0] || navigator.language || 'en-US';
+  }
+  return 'en-US';
+};
+
+// Intl.NumberFormat construction is slow, so formatters are reused per locale and options
+const formatterCache: Map<string, Intl.NumberFormat> = new Map();
+
+const getFormatter = (options: Intl.NumberFormatOptions): Intl.NumberFormat => {
+  const locale = getFormatLocale();
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, options);
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+};
+
+// Get currency symbol based on currency code
+export const getCurrencySymbol = (currency: string): string => {
+  return currencies[currency]?.symbol || currency.toUpperCase() + ' ';
+};
+
+// Fiat quotes use Intl currency style; crypto quotes are decimals with our own symbol prefix
+const isFiat = (currency: string): boolean => currencies[currency]?.type !== 'crypto';
+
+const withSymbol = (currency: string, options: Intl.NumberFormatOptions): Intl.NumberFormatOptions => {
+  return isFiat(currency)
+    ? { ...options, style: 'currency', currency: currency.toUpperCase(), currencyDisplay: 'narrowSymbol' }
+    : { ...options, style: 'decimal' };
+};
+
+// Prefix the symbol for crypto quotes, keeping any minus sign in front of it
+const applyCryptoSymbol = (formatted: string, value: number, currency: string): string => {
+  if (isFiat(currency)) return formatted;
+
+  const symbol = getCurrencySymbol(currency);
+  return value < 0 ? `-${symbol}${formatted.replace(/^[-−]/, '')}` : `${symbol}${formatted}`;
+};
+
+// Format an amount through Intl in the given quote currency
+const formatAmount = (value: number, currency: string, options: Intl.NumberFormatOptions): string => {
+  return applyCryptoSymbol(getFormatter(withSymbol(currency, options)).format(value), value, currency);
+};
+
+// Convert a count of zeros to subscript digits
+const toSubscript = (count: number): string => {
+  return String(count).split('').map(digit => SUBSCRIPT_DIGITS[Number(digit)]).join('');
+};
+
+// Format a tiny price as 0.0ₙddd, where n is the number of zeros after the decimal point
+const formatSubscriptZero = (value: number, currency: string): string => {
+  const abs = Math.abs(value);
+  let zeros = -Math.floor(Math.log10(abs)) - 1;
+  let digits = Math.round(abs * 10 ** (zeros + SMALL_PRICE_SIGNIFICANT_DIGITS));
+
+  // Rounding can carry into an extra digit, e.g. 0.000009999 -> 0.00001000
+  if (digits >= 10 ** SMALL_PRICE_SIGNIFICANT_DIGITS) {
+    zeros -= 1;
+    digits = Math.round(digits / 10);
+  }
+
+  const significant = String(digits).replace(/0+$/, '');
+  const fraction = `0${toSubscript(zeros)}${significant}`;
+
+  // Format a placeholder so the symbol, sign and decimal separator follow the locale
+  const parts = getFormatter(withSymbol(currency, { minimumFractionDigits: 1, maximumFractionDigits: 1 }))
+    .formatToParts(value < 0 ? -1 : 1);
+
+  const formatted = parts.map(part => {
+    if (part.type === 'integer') return '0';
+    if (part.type === 'fraction') return fraction;
+    return part.value;
+  }).join('');
+
+  return applyCryptoSymbol(formatted, value, currency);
+};
+
+// Format price with appropriate precision and the symbol of the quote currency
+export const formatPrice = (price: number, currency: string = 'usd'): string => {
+  if (price === undefined || price === null || !Number.isFinite(price) || price === 0) {
+    return formatAmount(0, currency, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  }
+
+  const abs = Math.abs(price);
+  const decimals = currencies[currency]?.decimals ?? 2;
+
+  if (abs >= 1000) {
+    return formatAmount(price, currency, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  }
+  if (abs >= 1) {
+    const fractionDigits = Math.min(decimals, 2);
+    return formatAmount(price, currency, {
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits
+    });
+  }
+  if (abs < SUBSCRIPT_ZERO_THRESHOLD) {
+    return formatSubscriptZero(price, currency);
+  }
+  return formatAmount(price, currency, {
+    minimumSignificantDigits: 2,
+    maximumSignificantDigits: SMALL_PRICE_SIGNIFICANT_DIGITS
+  });
+};
+
+// Format price change with sign
+export const formatPriceChange = (change: number): string => {
+  const value = change === undefined || change === null || !Number.isFinite(change) ? 0 : change;
+
+  return getFormatter({
+    style: 'percent',
+    signDisplay: 'exceptZero',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(value / 100);
+};
+
+// Format number with compact representation (K, M, B, T in English)
+export const formatCompactNumber = (num: number): string => {
+  const value = num === undefined || num === null || !Number.isFinite(num) ? 0 : num;
+
+  return getFormatter({
+    notation: 'compact',
+    minimumFractionDigits: Math.abs(value) >= 1000 ? 2 : 0,
+    maximumFractionDigits: 2
+  }).format(value);
+};
+
+// Format a market cap or volume with the quote currency symbol
+export const formatCurrencyCompact = (num: number, currency: string = 'usd'): string => {
+  const value = num === undefined || num === null || !Number.isFinite(num) ? 0 : num;
+
+  return formatAmount(value, currency, {
+    notation: 'compact',
+    minimumFractionDigits: Math.abs(value) >= 1000 ? 2 : 0,
+    maximumFractionDigits: 2
+  });
+};
+
+// Format an ISO timestamp as a date, e.g. Nov 10, 2021
+export const formatDate = (isoDate: string | null | undefined): string => {
+  const date = isoDate ? new Date(isoDate) : null;
+  if (!date || Number.isNaN(date.getTime())) return '—';
+
+  return new Intl.DateTimeFormat(getFormatLocale(), { year: 'numeric', month: 'short', day: 'numeric' }).format(date);
+};
@@ -0,0 +1,229 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Decimal } from './decimal';
+import { buildTaxReports, matchLots, taxReportToCsv, type Disposal, type LotMethod } from './lotAccounting';
+import type { Transaction, TransactionType } from './portfolio';
+
+// Noon local time, so the calendar date is the same in every time zone
+const localDate = (year: number, month: number, day: number, hour = 12, minute = 0): string =>
+  new Date(year, month - 1, day, hour, minute).toISOString();
+
+const trade = (
+  id: string,
+  type: TransactionType,
+  quantity: string,
+  price: string,
+  date: string,
+  fee = '0',
+  coin: Partial<Transaction> = {}
+): Transaction => ({
+  id,
+  coinId: 'bitcoin',
+  symbol: 'btc',
+  name: 'Bitcoin',
+  type,
+  quantity,
+  price,
+  fee,
+  date,
+  ...coin,
+});
+
+// Three buys at different costs, then one sale that takes a whole lot and half of another
+const history: Transaction[] = [
+  trade('b1', 'buy', '1', '100', localDate(2023, 1, 10)),
+  trade('b2', 'buy', '1', '300', localDate(2023, 6, 10)),
+  trade('b3', 'buy', '1', '200', localDate(2023, 9, 10)),
+  trade('s1', 'sell', '1.5', '400', localDate(2024, 3, 1)),
+];
+
+const summarize = (disposals: Disposal[]) =>
+  disposals.map(d => ({
+    lot: d.buyTransactionId,
+    quantity: d.quantity.toString(),
+    proceeds: d.proceeds.toString(),
+    costBasis: d.costBasis.toString(),
+    gain: d.gain.toString(),
+    term: d.term,
+  }));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('matchLots', () => {
+  const cases: Record<LotMethod, { disposals: ReturnType<typeof summarize>; open: [string, string, string][] }> = {
+    fifo: {
+      disposals: [
+        { lot: 'b1', quantity: '1', proceeds: '400', costBasis: '100', gain: '300', term: 'long' },
+        { lot: 'b2', quantity: '0.5', proceeds: '200', costBasis: '150', gain: '50', term: 'short' },
+      ],
+      open: [['b2', '0.5', '150'], ['b3', '1', '200']],
+    },
+    lifo: {
+      disposals: [
+        { lot: 'b3', quantity: '1', proceeds: '400', costBasis: '200', gain: '200', term: 'short' },
+        { lot: 'b2', quantity: '0.5', proceeds: '200', costBasis: '150', gain: '50', term: 'short' },
+      ],
+      open: [['b1', '1', '100'], ['b2', '0.5', '150']],
+    },
+    hifo: {
+      disposals: [
+        { lot: 'b2', quantity: '1', proceeds: '400', costBasis: '300', gain: '100', term: 'short' },
+        { lot: 'b3', quantity: '0.5', proceeds: '200', costBasis: '100', gain: '100', term: 'short' },
+      ],
+      open: [['b1', '1', '100'], ['b3', '0.5', '100']],
+    },
+  };
+
+  for (const [method, expected] of Object.entries(cases) as [LotMethod, (typeof cases)[LotMethod]][]) {
+    it(`splits a partial lot disposal under ${method.toUpperCase()}`, () => {
+      const result = matchLots(history, method);
+      expect(summarize(result.disposals)).toEqual(expected.disposals);
+      expect(result.openLots.map(lot => [lot.transactionId, lot.quantity.toString(), lot.cost.toString()])).toEqual(
+        expected.open
+      );
+      expect(result.unmatched.isZero()).toBe(true);
+    });
+  }
+
+  it('replays trades in date order whatever order they were recorded in', () => {
+    const result = matchLots([...history].reverse(), 'fifo');
+    expect(summarize(result.disposals)).toEqual(cases.fifo.disposals);
+  });
+
+  it('adds buy fees to the cost and takes sell fees from the proceeds', () => {
+    const result = matchLots(
+      [
+        trade('b1', 'buy', '2', '10', localDate(2024, 1, 1), '1'),
+        trade('s1', 'sell', '1', '20', localDate(2024, 2, 1), '2'),
+      ],
+      'fifo'
+    );
+    expect(summarize(result.disposals)).toEqual([
+      { lot: 'b1', quantity: '1', proceeds: '18', costBasis: '10.5', gain: '7.5', term: 'short' },
+    ]);
+    expect(result.openLots[0].cost.toString()).toBe('10.5');
+  });
+
+  it('leaves no rounding dust when a lot is sold off in thirds', () => {
+    const third = '0.333333333333333333';
+    const result = matchLots(
+      [
+        trade('b1', 'buy', '1', '10', localDate(2024, 1, 1)),
+        trade('s1', 'sell', third, '10', localDate(2024, 2, 1)),
+        trade('s2', 'sell', third, '10', localDate(2024, 3, 1)),
+        trade('s3', 'sell', '0.333333333333333334', '10', localDate(2024, 4, 1)),
+      ],
+      'fifo'
+    );
+    expect(result.openLots).toEqual([]);
+    expect(Decimal.sum(result.disposals.map(d => d.costBasis)).toString()).toBe('10');
+    expect(Decimal.sum(result.disposals.map(d => d.gain)).toString()).toBe('0');
+  });
+
+  it('reports quantity sold beyond what was held as unmatched', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = matchLots(
+      [
+        trade('b1', 'buy', '1', '100', localDate(2024, 1, 1)),
+        trade('s1', 'sell', '3', '150', localDate(2024, 2, 1)),
+      ],
+      'fifo'
+    );
+    expect(summarize(result.disposals)).toEqual([
+      { lot: 'b1', quantity: '1', proceeds: '150', costBasis: '100', gain: '50', term: 'short' },
+    ]);
+    expect(result.unmatched.toString()).toBe('2');
+    expect(result.openLots).toEqual([]);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('keeps each coin in its own lots', () => {
+    const result = matchLots(
+      [
+        trade('b1', 'buy', '1', '100', localDate(2024, 1, 1)),
+        trade('b2', 'buy', '5', '2', localDate(2024, 1, 2), '0', { coinId: 'solana', symbol: 'sol', name: 'Solana' }),
+        trade('s1', 'sell', '1', '3', localDate(2024, 2, 1), '0', { coinId: 'solana', symbol: 'sol', name: 'Solana' }),
+      ],
+      'fifo'
+    );
+    expect(summarize(result.disposals)).toEqual([
+      { lot: 'b2', quantity: '1', proceeds: '3', costBasis: '2', gain: '1', term: 'short' },
+    ]);
+    expect(result.openLots.map(lot => [lot.transactionId, lot.quantity.toString()])).toEqual([
+      ['b1', '1'],
+      ['b2', '4'],
+    ]);
+  });
+});
+
+describe('buildTaxReports', () => {
+  it('groups disposals by the local calendar year of the sale, newest first', () => {
+    const reports = buildTaxReports(
+      [
+        trade('b1', 'buy', '2', '100', localDate(2022, 6, 1)),
+        trade('s1', 'sell', '1', '150', localDate(2023, 12, 31, 23, 30)),
+        trade('s2', 'sell', '1', '50', localDate(2024, 1, 1, 0, 30)),
+      ],
+      'fifo'
+    );
+    expect(reports.map(report => [report.year, report.gain.toString(), report.longTermGain.toString()])).toEqual([
+      [2024, '-50', '-50'],
+      [2023, '50', '50'],
+    ]);
+  });
+});
+
+describe('taxReportToCsv', () => {
+  it('writes one row per disposal and a totals row', () => {
+    const [report] = buildTaxReports(history, 'fifo');
+    expect(taxReportToCsv(report, 'usd').split('\r\n')).toEqual([
+      'Description,Date Acquired,Date Sold,Quantity,Proceeds (USD),Cost Basis (USD),Gain or Loss (USD),Term',
+      '1 BTC (Bitcoin),2023-01-10,2024-03-01,1,400.00,100.00,300.00,Long-term',
+      '0.5 BTC (Bitcoin),2023-06-10,2024-03-01,0.5,200.00,150.00,50.00,Short-term',
+      'Total 2024 (FIFO),,,,600.00,250.00,350.00,',
+    ]);
+  });
+
+  it('dates trades by their local day, even just after midnight', () => {
+    const [report] = buildTaxReports(
+      [
+        trade('b1', 'buy', '1', '100', localDate(2023, 12, 31, 23, 45)),
+        trade('s1', 'sell', '1', '120', localDate(2024, 1, 1, 0, 15)),
+      ],
+      'fifo'
+    );
+    expect(taxReportToCsv(report, 'usd').split('\r\n')[1]).toBe(
+      '1 BTC (Bitcoin),2023-12-31,2024-01-01,1,120.00,100.00,20.00,Short-term'
+    );
+  });
+
+  it('keeps the precision of the report currency', () => {
+    const sol = { coinId: 'solana', symbol: 'sol', name: 'Solana' };
+    const [report] = buildTaxReports(
+      [
+        trade('b1', 'buy', '10', '0.000012345', localDate(2024, 1, 1), '0', sol),
+        trade('s1', 'sell', '10', '0.000023456', localDate(2024, 2, 1), '0', sol),
+      ],
+      'fifo'
+    );
+    const [, row, total] = taxReportToCsv(report, 'btc').split('\r\n');
+    expect(row).toBe('10 SOL (Solana),2024-01-01,2024-02-01,10,0.00023456,0.00012345,0.00011111,Short-term');
+    expect(total).toBe('Total 2024 (FIFO),,,,0.00023456,0.00012345,0.00011111,');
+    expect(taxReportToCsv(report, 'jpy').split('\r\n')[1]).toContain(',0,0,0,');
+  });
+
+  it('quotes fields that contain commas or quotes', () => {
+    const coin = { coinId: 'acme', symbol: 'acme', name: 'Acme, "Inc"' };
+    const [report] = buildTaxReports(
+      [
+        trade('b1', 'buy', '1', '1', localDate(2024, 1, 1), '0', coin),
+        trade('s1', 'sell', '1', '2', localDate(2024, 2, 1), '0', coin),
+      ],
+      'fifo'
+    );
+    expect(taxReportToCsv(report, 'usd').split('\r\n')[1]).toBe(
+      '"1 ACME (Acme, ""Inc"")",2024-01-01,2024-02-01,1,2.00,1.00,1.00,Short-term'
+    );
+  });
+});
@@ -0,0 +1,248 @@
+// Tax lot matching and realized gain reports
+// Every buy opens a lot. Each sell closes quantity from the open lots of the same coin, picked by the
+// chosen method, and records a disposal with its share of the sale proceeds and of the lot's cost.
+// Fees are part of a lot's cost and are taken from a sale's proceeds. All math is exact Decimal math.
+
+import { Decimal } from './decimal';
+import { currencies } from './formatting';
+import type { Transaction } from './portfolio';
+
+export type LotMethod = 'fifo' | 'lifo' | 'hifo';
+
+export const LOT_METHODS: Record<LotMethod, string> = {
+  fifo: 'First in, first out',
+  lifo: 'Last in, first out',
+  hifo: 'Highest cost first',
+};
+
+export interface Lot {
+  transactionId: string;
+  coinId: string;
+  acquiredAt: string;
+  quantity: Decimal; // Still held
+  cost: Decimal; // Cost of the quantity still held, fees included
+}
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface Disposal {
+  sellTransactionId: string;
+  buyTransactionId: string;
+  coinId: string;
+  symbol: string;
+  name: string;
+  quantity: Decimal;
+  acquiredAt: string;
+  disposedAt: string;
+  proceeds: Decimal; // Net of the sale fee
+  costBasis: Decimal;
+  gain: Decimal;
+  term: HoldingTerm; // Long term once held for more than a year
+  taxYear: number;
+}
+
+export interface LotMatchResult {
+  openLots: Lot[];
+  disposals: Disposal[];
+  unmatched: Decimal; // Quantity sold beyond what was held; left out of the disposals
+}
+
+export interface TaxYearReport {
+  year: number;
+  method: LotMethod;
+  disposals: Disposal[];
+  proceeds: Decimal;
+  costBasis: Decimal;
+  gain: Decimal;
+  shortTermGain: Decimal;
+  longTermGain: Decimal;
+}
+
+const time = (date: string): number => new Date(date).getTime();
+
+// Held for more than a year, counting from the day after acquisition
+const holdingTerm = (acquiredAt: string, disposedAt: string): HoldingTerm => {
+  const anniversary = new Date(acquiredAt);
+  anniversary.setFullYear(anniversary.getFullYear() + 1);
+  return time(disposedAt) > anniversary.getTime() ? 'long' : 'short';
+};
+
+// Index of the lot the method sells from next
+const pickLot = (lots: Lot[], method: LotMethod): number => {
+  let best = 0;
+  for (let i = 1; i < lots.length; i++) {
+    const lot = lots[i];
+    const current = lots[best];
+    if (method === 'lifo') {
+      if (time(lot.acquiredAt) >= time(current.acquiredAt)) best = i;
+    } else if (method === 'hifo') {
+      // Compare cost per unit without dividing: a.cost / a.qty > b.cost / b.qty
+      if (lot.cost.times(current.quantity).gt(current.cost.times(lot.quantity))) best = i;
+    }
+    // FIFO keeps the first lot, since lots are opened in date order
+  }
+  return best;
+};
+
+// Oldest first; trades on the same date keep the order they were recorded in
+const inDateOrder = (transactions: Transaction[]): Transaction[] => {
+  return transactions
+    .map((transaction, index) => ({ transaction, index }))
+    .sort((a, b) => time(a.transaction.date) - time(b.transaction.date) || a.index - b.index)
+    .map(({ transaction }) => transaction);
+};
+
+// Replay the transactions, matching every sell against open lots with the given method
+export const matchLots = (transactions: Transaction[], method: LotMethod): LotMatchResult => {
+  const lotsByCoin: Map<string, Lot[]> = new Map();
+  const disposals: Disposal[] = [];
+  let unmatched = Decimal.ZERO;
+
+  for (const transaction of inDateOrder(transactions)) {
+    const quantity = Decimal.from(transaction.quantity);
+    const price = Decimal.from(transaction.price);
+    const fee = Decimal.from(transaction.fee || '0');
+    const lots = lotsByCoin.get(transaction.coinId) ?? [];
+    lotsByCoin.set(transaction.coinId, lots);
+
+    if (transaction.type === 'buy') {
+      lots.push({
+        transactionId: transaction.id,
+        coinId: transaction.coinId,
+        acquiredAt: transaction.date,
+        quantity,
+        cost: quantity.times(price).plus(fee),
+      });
+      continue;
+    }
+
+    const netProceeds = quantity.times(price).minus(fee);
+    let remaining = quantity;
+    let proceedsLeft = netProceeds;
+
+    while (remaining.isPositive() && lots.length > 0) {
+      const index = pickLot(lots, method);
+      const lot = lots[index];
+      const take = Decimal.min(remaining, lot.quantity);
+      const closesLot = take.eq(lot.quantity);
+      const closesSell = take.eq(remaining);
+
+      // The last piece of a lot or a sale takes what is left, so rounding never leaves dust behind
+      const costBasis = closesLot ? lot.cost : lot.cost.times(take).dividedBy(lot.quantity);
+      const proceeds = closesSell ? proceedsLeft : netProceeds.times(take).dividedBy(quantity);
+
+      disposals.push({
+        sellTransactionId: transaction.id,
+        buyTransactionId: lot.transactionId,
+        coinId: transaction.coinId,
+        symbol: transaction.symbol,
+        name: transaction.name,
+        quantity: take,
+        acquiredAt: lot.acquiredAt,
+        disposedAt: transaction.date,
+        proceeds,
+        costBasis,
+        gain: proceeds.minus(costBasis),
+        term: holdingTerm(lot.acquiredAt, transaction.date),
+        taxYear: new Date(transaction.date).getFullYear(),
+      });
+
+      remaining = remaining.minus(take);
+      proceedsLeft = proceedsLeft.minus(proceeds);
+      if (closesLot) {
+        lots.splice(index, 1);
+      } else {
+        lot.quantity = lot.quantity.minus(take);
+        lot.cost = lot.cost.minus(costBasis);
+      }
+    }
+
+    if (remaining.isPositive()) {
+      console.warn(`Sell ${transaction.id} exceeds the ${transaction.symbol.toUpperCase()} held; ignoring ${remaining}`);
+      unmatched = unmatched.plus(remaining);
+    }
+  }
+
+  return {
+    openLots: [...lotsByCoin.values()].flat(),
+    disposals,
+    unmatched,
+  };
+};
+
+// Realized gains grouped by the calendar year of each sale, most recent year first
+export const buildTaxReports = (transactions: Transaction[], method: LotMethod): TaxYearReport[] => {
+  const byYear: Map<number, Disposal[]> = new Map();
+  for (const disposal of matchLots(transactions, method).disposals) {
+    byYear.set(disposal.taxYear, [...(byYear.get(disposal.taxYear) ?? []), disposal]);
+  }
+
+  return [...byYear.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([year, disposals]) => {
+      const gainFor = (term: HoldingTerm) => Decimal.sum(disposals.filter(d => d.term === term).map(d => d.gain));
+      return {
+        year,
+        method,
+        disposals,
+        proceeds: Decimal.sum(disposals.map(d => d.proceeds)),
+        costBasis: Decimal.sum(disposals.map(d => d.costBasis)),
+        gain: Decimal.sum(disposals.map(d => d.gain)),
+        shortTermGain: gainFor('short'),
+        longTermGain: gainFor('long'),
+      };
+    });
+};
+
+// Quote fields that contain separators, quotes or line breaks
+const csvField = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Calendar date in local time, the same day the tax year is taken from
+const csvDate = (date: string): string => {
+  const local = new Date(date);
+  return new Date(local.getTime() - local.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+};
+
+// One row per disposal, in the usual Form 8949 column order, with a totals row at the end
+export const taxReportToCsv = (report: TaxYearReport, currency: string): string => {
+  const code = currency.toUpperCase();
+  // Amounts keep the currency's own precision, so BTC or ETH gains aren't rounded away
+  const decimals = currencies[currency.toLowerCase()]?.decimals ?? 2;
+  const amount = (value: Decimal) => value.toFixed(decimals);
+  const header = [
+    'Description',
+    'Date Acquired',
+    'Date Sold',
+    'Quantity',
+    `Proceeds (${code})`,
+    `Cost Basis (${code})`,
+    `Gain or Loss (${code})`,
+    'Term',
+  ];
+
+  const rows = report.disposals.map(disposal => [
+    `${disposal.quantity} ${disposal.symbol.toUpperCase()} (${disposal.name})`,
+    csvDate(disposal.acquiredAt),
+    csvDate(disposal.disposedAt),
+    disposal.quantity.toString(),
+    amount(disposal.proceeds),
+    amount(disposal.costBasis),
+    amount(disposal.gain),
+    disposal.term === 'long' ? 'Long-term' : 'Short-term',
+  ]);
+
+  rows.push([
+    `Total ${report.year} (${report.method.toUpperCase()})`,
+    '',
+    '',
+    '',
+    amount(report.proceeds),
+    amount(report.costBasis),
+    amount(report.gain),
+    '',
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n');
+};
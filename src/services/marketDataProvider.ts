@@ -0,0 +1,125 @@
+// Pluggable market data providers with an ordered fallback chain
+// Providers throw on failure so the chain can move on to the next one in priority order
+
+import type { CoinData, SearchResultItem, TrendingCoin } from './types';
+import { isAbortError } from './requestCoalescing';
+import { CircuitOpenError, withCircuitBreaker } from './providerHealth';
+import { coinGeckoProvider } from './coinGeckoService';
+import { moonPayProvider } from './moonpayService';
+import { mockProvider } from './mockCryptoService';
+
+export interface MarketDataProvider {
+  id: string;
+  name: string;
+  quoteCurrencies?: string[]; // Currencies its prices come in; omitted when it can quote in any
+  fetchTopCoins(currency: string, limit: number, signal?: AbortSignal): Promise<CoinData[]>;
+  fetchCoinData(coinId: string, currency: string, signal?: AbortSignal): Promise<CoinData | null>;
+  fetchCoinsByIds(coinIds: string[], currency: string, signal?: AbortSignal): Promise<CoinData[]>;
+  fetchTrendingCoins(signal?: AbortSignal): Promise<TrendingCoin[]>;
+  searchCoins(query: string, signal?: AbortSignal): Promise<SearchResultItem[]>;
+}
+
+// Provider methods, each tracked by its own circuit breaker
+export type ProviderEndpoint = 'fetchTopCoins' | 'fetchCoinData' | 'fetchCoinsByIds' | 'fetchTrendingCoins' | 'searchCoins';
+
+// Provider order used when VITE_MARKET_DATA_PROVIDERS is not set
+const DEFAULT_PROVIDER_ORDER = ['coingecko', 'moonpay'];
+
+// Registered providers by ID, and the order in which they are tried
+const providers: Map<string, MarketDataProvider> = new Map();
+let providerOrder: string[] = [];
+
+// Register a provider; without a priority it is appended to the end of the chain
+export const registerProvider = (provider: MarketDataProvider, priority?: number): void => {
+  providers.set(provider.id, provider);
+  providerOrder = providerOrder.filter(id => id !== provider.id);
+
+  if (priority === undefined || priority >= providerOrder.length) {
+    providerOrder.push(provider.id);
+  } else {
+    providerOrder.splice(Math.max(0, priority), 0, provider.id);
+  }
+};
+
+// Remove a provider from the registry and the fallback chain
+export const unregisterProvider = (providerId: string): void => {
+  providers.delete(providerId);
+  providerOrder = providerOrder.filter(id => id !== providerId);
+};
+
+// Replace the fallback chain; unknown IDs are ignored and omitted providers are skipped
+export const setProviderOrder = (providerIds: string[]): void => {
+  providerOrder = providerIds.filter(id => {
+    if (!providers.has(id)) {
+      console.warn(`Unknown market data provider: ${id}`);
+      return false;
+    }
+    return true;
+  });
+};
+
+// Get the active providers in priority order
+export const getProviders = (): MarketDataProvider[] => {
+  return providerOrder
+    .map(id => providers.get(id))
+    .filter((provider): provider is MarketDataProvider => provider !== undefined);
+};
+
+// Get a registered provider by ID, whether or not it is in the active chain
+export const getProvider = (providerId: string): MarketDataProvider | undefined => {
+  return providers.get(providerId);
+};
+
+// Whether a provider's prices can be shown in the currency
+export const canQuoteIn = (provider: MarketDataProvider, currency: string): boolean => {
+  return !provider.quoteCurrencies || provider.quoteCurrencies.includes(currency.toLowerCase());
+};
+
+// Run an operation against each provider in order until one returns a usable result.
+// Providers whose breaker for the endpoint is open, or that can't quote in the requested currency,
+// are skipped without a request.
+// Throws the last provider error if every provider fails, or straight away if the caller cancelled.
+export async function runWithFallback<T>(
+  endpoint: ProviderEndpoint,
+  operation: string,
+  call: (provider: MarketDataProvider) => Promise<T>,
+  isUsable: (result: T) => boolean = result => result !== null && result !== undefined,
+  currency?: string
+): Promise<T> {
+  const chain = currency ? getProviders().filter(provider => canQuoteIn(provider, currency)) : getProviders();
+  let lastError: unknown = new Error(`No market data providers available for ${operation}`);
+
+  for (const provider of chain) {
+    try {
+      const result = await withCircuitBreaker(provider.id, endpoint, () => call(provider));
+      if (isUsable(result)) {
+        return result;
+      }
+      lastError = new Error(`${provider.name} returned no data for ${operation}`);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      if (error instanceof CircuitOpenError) {
+        lastError = error;
+        continue;
+      }
+      console.warn(`${provider.name} failed for ${operation}, trying next provider`, error);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+// Register the built-in providers and apply the configured order
+registerProvider(coinGeckoProvider);
+registerProvider(moonPayProvider);
+registerProvider(mockProvider);
+
+const configuredOrder = (import.meta.env.VITE_MARKET_DATA_PROVIDERS || '')
+  .split(',')
+  .map((id: string) => id.trim().toLowerCase())
+  .filter(Boolean);
+
+setProviderOrder(configuredOrder.length > 0 ? configuredOrder : DEFAULT_PROVIDER_ORDER);
@@ -1,29 +1,9 @@
 // This file provides mock data that mimics the CoinGecko API
 // Used to avoid API rate limiting and connection issues
 
-export interface CoinData {
-  id: string;
-  symbol: string;
-  name: string;
-  image: string;
-  current_price: number;
-  price_change_percentage_24h: number;
-  market_cap: number;
-  market_cap_rank: number;
-  total_volume: number;
-}
-
-export interface TrendingCoin {
-  item: {
-    id: string;
-    name: string;
-    symbol: string;
-    thumb: string;
-    small: string;
-    price_btc: number;
-    score: number;
-  };
-}
+import type { MarketDataProvider } from './marketDataProvider';
+import { abortableDelay } from './requestCoalescing';
+import type { CoinData, SearchResultItem, TrendingCoin } from './types';
 
 // Mock data for top coins
 const mockTopCoins: CoinData[] = [
@@ -86,7 +66,7 @@ const mockTopCoins: CoinData[] = [
     id: "godsdollar",
     symbol: "godd",
     name: "Gods Dollar",
-    image: "/src/images/main.png",
+    image: "", // Resolved from the token's on-chain metadata
     current_price: 2.75,
     price_change_percentage_24h: 5.67,
     market_cap: 12345678901,
@@ -135,56 +115,63 @@ const mockTrendingCoins: TrendingCoin[] = [
       id: "godsdollar",
       name: "Gods Dollar",
       symbol: "GODD",
-      thumb: "/src/images/main.png",
-      small: "/src/images/main.png",
+      thumb: "",
+      small: "",
       price_btc: 0.0000456,
       score: 4,
     }
   }
 ];
 
-// Mock API functions with the same interface as the original service
-export const fetchTopCoins = async (
-  currency: string = 'usd',
-  limit: number = 6
-): Promise<CoinData[]> => {
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  // Return the specified number of coins
-  return mockTopCoins.slice(0, limit);
-};
+// Simulate network delay, cancellable like a real request
+const simulateDelay = (signal?: AbortSignal) => abortableDelay(500, signal);
 
-export const fetchCoinData = async (
-  coinId: string,
-  currency: string = 'usd'
-): Promise<CoinData | null> => {
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  // Find the requested coin
-  const coin = mockTopCoins.find(c => c.id === coinId);
-  return coin || null;
-};
+// Mock provider with the same interface as the live providers
+export const mockProvider: MarketDataProvider = {
+  id: 'mock',
+  name: 'Mock Data',
+  quoteCurrencies: ['usd'],
 
-export const fetchTrendingCoins = async (): Promise<TrendingCoin[]> => {
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  return mockTrendingCoins;
-};
+  async fetchTopCoins(currency: string, limit: number, signal?: AbortSignal): Promise<CoinData[]> {
+    await simulateDelay(signal);
 
-export const formatPrice = (price: number): string => {
-  if (price >= 1000) {
-    return `$${(price).toFixed(0).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
-  } else if (price >= 1) {
-    return `$${price.toFixed(2)}`;
-  } else {
-    return `$${price.toFixed(6)}`;
-  }
-};
+    // Return the specified number of coins
+    return mockTopCoins.slice(0, limit);
+  },
+
+  async fetchCoinData(coinId: string, currency: string, signal?: AbortSignal): Promise<CoinData | null> {
+    await simulateDelay(signal);
+
+    // Find the requested coin
+    const coin = mockTopCoins.find(c => c.id === coinId);
+    return coin || null;
+  },
+
+  async fetchCoinsByIds(coinIds: string[], currency: string, signal?: AbortSignal): Promise<CoinData[]> {
+    await simulateDelay(signal);
+
+    return mockTopCoins.filter(c => coinIds.includes(c.id));
+  },
+
+  async fetchTrendingCoins(signal?: AbortSignal): Promise<TrendingCoin[]> {
+    await simulateDelay(signal);
 
-export const formatPriceChange = (change: number): string => {
-  const sign = change >= 0 ? '+' : '';
-  return `${sign}${change.toFixed(2)}%`;
+    return mockTrendingCoins;
+  },
+
+  async searchCoins(query: string, signal?: AbortSignal): Promise<SearchResultItem[]> {
+    await simulateDelay(signal);
+
+    const needle = query.trim().toLowerCase();
+    return mockTopCoins
+      .filter(c => c.id.includes(needle) || c.symbol.includes(needle) || c.name.toLowerCase().includes(needle))
+      .map(c => ({
+        id: c.id,
+        name: c.name,
+        symbol: c.symbol,
+        thumb: c.image,
+        small: c.image,
+        market_cap_rank: c.market_cap_rank,
+      }));
+  },
 };
@@ -1,31 +1,9 @@
 // MoonPay integration service
 // Documentation: https://dashboard.moonpay.com/dashboard/on-ramp/integrate
 import axios from 'axios';
-
-// Keep the same interfaces to maintain compatibility with existing code
-export interface CoinData {
-  id: string;
-  symbol: string;
-  name: string;
-  image: string;
-  current_price: number;
-  price_change_percentage_24h: number;
-  market_cap: number;
-  market_cap_rank: number;
-  total_volume: number;
-}
-
-export interface TrendingCoin {
-  item: {
-    id: string;
-    name: string;
-    symbol: string;
-    thumb: string;
-    small: string;
-    price_btc: number;
-    score: number;
-  };
-}
+import type { MarketDataProvider } from './marketDataProvider';
+import { coalesceRequest, requestKey } from './requestCoalescing';
+import type { CoinData, SearchResultItem, TrendingCoin } from './types';
 
 // Define interface for MoonPay currency response
 interface MoonPayCurrency {
@@ -40,147 +18,105 @@ interface MoonPayCurrency {
   btcRate?: number;
 }
 
-// Helper function to get cryptocurrency images with fallbacks
-const getCryptoImageUrl = (code: string): string => {
-  // Special case for Gods Dollar
-  if (code.toLowerCase() === 'godd') {
-    return '/src/images/main.png';
-  }
-  
-  // Map of common cryptocurrencies to local images (if you add local images to your project)
-  const localImageMap: Record<string, string> = {
-    btc: '/src/images/crypto/bitcoin.png',
-    eth: '/src/images/crypto/ethereum.png',
-    sol: '/src/images/crypto/solana.png',
-    usdc: '/src/images/crypto/usdc.png',
-    // Add more mappings as needed
-  };
-  
-  // Check if we have a local image for this cryptocurrency
-  if (localImageMap[code.toLowerCase()]) {
-    return localImageMap[code.toLowerCase()];
-  }
-  
-  // Fallback to a placeholder image to prevent network errors
-  return '/public/placeholder.svg';
-};
-
 // Configuration
 const MOONPAY_API_BASE_URL = 'https://api.moonpay.com/v3';
-const MOONPAY_API_KEY = 'YOUR_MOONPAY_API_KEY'; // Replace with your actual MoonPay API key
-
-// MoonPay API functions for fetching cryptocurrency data
-export const fetchTopCoins = async (
-  currency: string = 'usd',
-  limit: number = 6
-): Promise<CoinData[]> => {
-  try {
-    // Use MoonPay's currencies endpoint to get available cryptocurrencies
-    const response = await axios.get<MoonPayCurrency[]>(`${MOONPAY_API_BASE_URL}/currencies`, {
+const MOONPAY_API_KEY = import.meta.env.VITE_MOONPAY_API_KEY || ''; // MoonPay API key from env
+
+// Transform a MoonPay currency to match our CoinData interface
+const toCoinData = (coin: MoonPayCurrency): CoinData => ({
+  id: coin.code,
+  symbol: coin.code,
+  name: coin.name,
+  image: coin.logoUrl || '',
+  current_price: coin.price || 0,
+  price_change_percentage_24h: coin.change24Hour || 0,
+  market_cap: coin.marketCap || 0,
+  market_cap_rank: coin.rank || 0,
+  total_volume: coin.volume24Hour || 0,
+});
+
+// Fetch the MoonPay crypto currency list, sharing identical in-flight requests
+const fetchCurrencies = (params: Record<string, unknown>, signal?: AbortSignal): Promise<MoonPayCurrency[]> => {
+  const url = `${MOONPAY_API_BASE_URL}/currencies`;
+  const query = { type: 'crypto', ...params };
+
+  return coalesceRequest(requestKey(url, query), async sharedSignal => {
+    const response = await axios.get<MoonPayCurrency[]>(url, {
       headers: {
         'Authorization': `Api-Key ${MOONPAY_API_KEY}`
       },
-      params: {
-        type: 'crypto',
-        limit: limit,
-      }
+      params: query,
+      timeout: 5000, // 5 seconds timeout
+      signal: sharedSignal,
     });
-    
-    // Transform MoonPay API response to match our CoinData interface
-    return response.data.map((coin: MoonPayCurrency) => ({
-      id: coin.code,
-      symbol: coin.code,
-      name: coin.name,
-      image: getCryptoImageUrl(coin.code),
-      current_price: coin.price || 0,
-      price_change_percentage_24h: coin.change24Hour || 0,
-      market_cap: coin.marketCap || 0,
-      market_cap_rank: coin.rank || 0,
-      total_volume: coin.volume24Hour || 0,
-    }));
-  } catch (error: unknown) {
-    console.error('Error fetching top coins from MoonPay:', error);
-    return [];
-  }
+    return response.data;
+  }, signal);
 };
 
-export const fetchCoinData = async (
-  coinId: string,
-  currency: string = 'usd'
-): Promise<CoinData | null> => {
-  try {
+export const moonPayProvider: MarketDataProvider = {
+  id: 'moonpay',
+  name: 'MoonPay',
+  // The currencies endpoint only reports USD prices
+  quoteCurrencies: ['usd'],
+
+  async fetchTopCoins(currency: string, limit: number, signal?: AbortSignal): Promise<CoinData[]> {
+    // Use MoonPay's currencies endpoint to get available cryptocurrencies
+    const currencies = await fetchCurrencies({ limit }, signal);
+    return currencies.map(toCoinData);
+  },
+
+  async fetchCoinData(coinId: string, currency: string, signal?: AbortSignal): Promise<CoinData | null> {
     // Use MoonPay's API to get details for a specific currency
     const response = await axios.get<MoonPayCurrency>(`${MOONPAY_API_BASE_URL}/currencies/${coinId}`, {
       headers: {
         'Authorization': `Api-Key ${MOONPAY_API_KEY}`
-      }
+      },
+      signal
     });
-    
-    if (response.data) {
-      const coin = response.data;
-      return {
-        id: coin.code,
-        symbol: coin.code,
-        name: coin.name,
-        image: getCryptoImageUrl(coin.code),
-        current_price: coin.price || 0,
-        price_change_percentage_24h: coin.change24Hour || 0,
-        market_cap: coin.marketCap || 0,
-        market_cap_rank: coin.rank || 0,
-        total_volume: coin.volume24Hour || 0,
-      };
-    }
-    return null;
-  } catch (error: unknown) {
-    console.error(`Error fetching data for ${coinId} from MoonPay:`, error);
-    return null;
-  }
-};
+    return response.data ? toCoinData(response.data) : null;
+  },
+
+  async fetchCoinsByIds(coinIds: string[], currency: string, signal?: AbortSignal): Promise<CoinData[]> {
+    // MoonPay has no batch lookup, so filter the full currency list by code
+    const codes = new Set(coinIds.map(id => id.toLowerCase()));
+    const currencies = await fetchCurrencies({}, signal);
+    return currencies.filter(coin => codes.has(coin.code.toLowerCase())).map(toCoinData);
+  },
 
-export const fetchTrendingCoins = async (): Promise<TrendingCoin[]> => {
-  try {
+  async fetchTrendingCoins(signal?: AbortSignal): Promise<TrendingCoin[]> {
     // Use MoonPay's API to get trending/featured currencies
-    const response = await axios.get<MoonPayCurrency[]>(`${MOONPAY_API_BASE_URL}/currencies`, {
-      headers: {
-        'Authorization': `Api-Key ${MOONPAY_API_KEY}`
-      },
-      params: {
-        type: 'crypto',
-        sort: 'popularity',
-        limit: 4
-      }
-    });
-      // Transform MoonPay API response to match TrendingCoin interface
-    return response.data.map((coin: MoonPayCurrency, index: number) => ({
+    const currencies = await fetchCurrencies({ sort: 'popularity', limit: 4 }, signal);
+
+    // Transform MoonPay API response to match TrendingCoin interface
+    return currencies.map((coin: MoonPayCurrency, index: number) => ({
       item: {
         id: coin.code,
         name: coin.name,
         symbol: coin.code.toUpperCase(),
-        thumb: getCryptoImageUrl(coin.code),
-        small: getCryptoImageUrl(coin.code),
+        thumb: coin.logoUrl || '',
+        small: coin.logoUrl || '',
         price_btc: coin.btcRate || 0,
         score: index + 1,
       }
     }));
-  } catch (error: unknown) {
-    console.error('Error fetching trending coins from MoonPay:', error);
-    return [];
-  }
-};
+  },
 
-export const formatPrice = (price: number): string => {
-  if (price >= 1000) {
-    return `$${(price).toFixed(0).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
-  } else if (price >= 1) {
-    return `$${price.toFixed(2)}`;
-  } else {
-    return `$${price.toFixed(6)}`;
-  }
-};
+  async searchCoins(query: string, signal?: AbortSignal): Promise<SearchResultItem[]> {
+    // MoonPay has no search endpoint, so match against the currency list
+    const needle = query.trim().toLowerCase();
+    const currencies = await fetchCurrencies({}, signal);
 
-export const formatPriceChange = (change: number): string => {
-  const sign = change >= 0 ? '+' : '';
-  return `${sign}${change.toFixed(2)}%`;
+    return currencies
+      .filter(coin => coin.code.toLowerCase().includes(needle) || coin.name.toLowerCase().includes(needle))
+      .map(coin => ({
+        id: coin.code,
+        name: coin.name,
+        symbol: coin.code,
+        thumb: coin.logoUrl,
+        small: coin.logoUrl,
+        market_cap_rank: coin.rank,
+      }));
+  },
 };
 
 // MoonPay specific functions for on-ramp integration
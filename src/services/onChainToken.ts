@@ -0,0 +1,166 @@
+// Token details read straight from the chain, for tokens CoinGecko doesn't list
+// Solana mints are read over JSON-RPC; EVM tokens through the ERC-20 name/symbol/decimals/totalSupply calls.
+
+import axios from 'axios';
+import { platformsFor, type ContractAddress } from './contractAddress';
+import { isAbortError } from './requestCoalescing';
+import { getAccountInfo, isParsedAccountData, type ParsedAccountData } from './solanaRpc';
+import { fetchOffChainMetadata, resolveTokenMetadata, toGatewayUrl } from './tokenMetadata';
+
+export interface OnChainToken {
+  platform: string; // CoinGecko asset platform ID, e.g. 'solana' or 'base'
+  address: string;
+  name: string | null; // Not every token publishes a name on chain
+  symbol: string | null;
+  decimals: number;
+  supply: number | null; // In whole tokens
+  image: string | null; // Logo from the token's metadata (Solana only)
+}
+
+// Public RPC endpoints for the EVM platforms
+const EVM_RPC_URLS: Record<string, string> = {
+  'ethereum': 'https://ethereum-rpc.publicnode.com',
+  'base': 'https://base-rpc.publicnode.com',
+  'binance-smart-chain': 'https://bsc-rpc.publicnode.com',
+  'arbitrum-one': 'https://arbitrum-one-rpc.publicnode.com',
+  'polygon-pos': 'https://polygon-bor-rpc.publicnode.com',
+};
+
+// ERC-20 function selectors
+const SELECTORS = {
+  name: '0x06fdde03',
+  symbol: '0x95d89b41',
+  decimals: '0x313ce567',
+  totalSupply: '0x18160ddd',
+};
+
+// Parsed info of a mint account
+interface MintInfo {
+  decimals: number;
+  supply: string;
+  extensions?: { extension: string; state: { name?: string; symbol?: string; uri?: string } }[];
+}
+
+// Whole tokens from a raw integer amount
+const toTokenAmount = (raw: bigint, decimals: number): number => Number(raw) / 10 ** decimals;
+
+// Logo from a metadata URI's off-chain JSON
+const fetchImage = async (uri: string | undefined, signal?: AbortSignal): Promise<string | null> => {
+  const offChain = uri ? await fetchOffChainMetadata(uri, signal) : null;
+  return offChain?.image ? toGatewayUrl(offChain.image) : null;
+};
+
+// Token-2022 mints can carry their name, symbol and URI in a metadata extension; others use Metaplex metadata
+const fetchSolanaToken = async (address: string, signal?: AbortSignal): Promise<OnChainToken | null> => {
+  const account = await getAccountInfo(address, { encoding: 'jsonParsed' }, signal);
+  if (!account || !isParsedAccountData(account.data) || account.data.parsed.type !== 'mint') return null;
+
+  const { parsed } = account.data as ParsedAccountData<MintInfo>;
+
+  const extension = parsed.info.extensions?.find(candidate => candidate.extension === 'tokenMetadata')?.state;
+  const metaplex = extension ? null : await resolveTokenMetadata(address).catch(error => {
+    console.warn(`Could not read metadata for ${address}`, error);
+    return null;
+  });
+  return {
+    platform: 'solana',
+    address,
+    name: extension?.name || metaplex?.name || null,
+    symbol: extension?.symbol || metaplex?.symbol || null,
+    decimals: parsed.info.decimals,
+    supply: toTokenAmount(BigInt(parsed.info.supply), parsed.info.decimals),
+    image: extension ? await fetchImage(extension.uri, signal) : metaplex?.image ?? null,
+  };
+};
+
+const evmRpc = async <T>(rpcUrl: string, method: string, params: unknown[], signal?: AbortSignal): Promise<T> => {
+  const response = await axios.post<{ result?: T; error?: { message: string } }>(
+    rpcUrl,
+    { jsonrpc: '2.0', id: 1, method, params },
+    { timeout: 10000, signal }
+  );
+  if (response.data.error) {
+    throw new Error(response.data.error.message);
+  }
+  return response.data.result as T;
+};
+
+const hexToBytes = (hex: string): Uint8Array => {
+  const clean = hex.replace(/^0x/, '');
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+// Decode an ABI string return value; a few old tokens (e.g. MKR) return bytes32 instead
+const decodeAbiString = (hex: string): string | null => {
+  const bytes = hexToBytes(hex);
+  if (bytes.length === 0) return null;
+
+  if (bytes.length >= 64) {
+    const length = Number(BigInt('0x' + hex.replace(/^0x/, '').slice(64, 128)));
+    if (64 + length <= bytes.length) {
+      return new TextDecoder().decode(bytes.slice(64, 64 + length)) || null;
+    }
+  }
+
+  const end = bytes.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? bytes : bytes.slice(0, end)) || null;
+};
+
+const fetchEvmToken = async (platform: string, address: string, signal?: AbortSignal): Promise<OnChainToken | null> => {
+  const rpcUrl = EVM_RPC_URLS[platform];
+  if (!rpcUrl) return null;
+
+  const code = await evmRpc<string>(rpcUrl, 'eth_getCode', [address, 'latest'], signal);
+  if (!code || code === '0x') return null;
+
+  const call = (data: string) =>
+    evmRpc<string>(rpcUrl, 'eth_call', [{ to: address, data }, 'latest'], signal).catch(() => '0x');
+  const [name, symbol, decimals, totalSupply] = await Promise.all([
+    call(SELECTORS.name),
+    call(SELECTORS.symbol),
+    call(SELECTORS.decimals),
+    call(SELECTORS.totalSupply),
+  ]);
+
+  // A contract that answers none of these isn't a token
+  if (decimals === '0x' && totalSupply === '0x') return null;
+
+  const tokenDecimals = decimals === '0x' ? 18 : Number(BigInt(decimals));
+  return {
+    platform,
+    address,
+    name: decodeAbiString(name),
+    symbol: decodeAbiString(symbol),
+    decimals: tokenDecimals,
+    supply: totalSupply === '0x' ? null : toTokenAmount(BigInt(totalSupply), tokenDecimals),
+    image: null,
+  };
+};
+
+// Read a token from the first platform of its chain where it exists; null when none has it.
+// Pass a platform to skip the search across EVM chains.
+export const fetchOnChainToken = async (
+  contract: ContractAddress,
+  platform?: string,
+  signal?: AbortSignal
+): Promise<OnChainToken | null> => {
+  if (contract.chain === 'solana') {
+    return fetchSolanaToken(contract.address, signal);
+  }
+
+  const platforms = platform ? [platform] : platformsFor('evm').map(candidate => candidate.id);
+  for (const candidate of platforms) {
+    try {
+      const token = await fetchEvmToken(candidate, contract.address, signal);
+      if (token) return token;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn(`Could not read ${contract.address} on ${candidate}`, error);
+    }
+  }
+  return null;
+};
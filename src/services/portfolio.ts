@@ -0,0 +1,189 @@
+// Portfolio accounting: holdings, cost basis and profit and loss from a list of transactions
+// Cost basis comes from lot matching (FIFO, LIFO or HIFO, see lotAccounting), so the realized P&L
+// shown here matches the tax reports. Amounts are kept as decimal strings and computed with Decimal;
+// they are only turned into numbers for display. All amounts are in the portfolio currency, and live
+// prices must be quoted in the same currency.
+
+import type { CoinData } from './types';
+import { Decimal } from './decimal';
+import { matchLots, type LotMethod } from './lotAccounting';
+
+export type TransactionType = 'buy' | 'sell';
+
+export interface Transaction {
+  id: string;
+  coinId: string;
+  symbol: string;
+  name: string;
+  type: TransactionType;
+  quantity: string; // Decimal strings, so stored amounts are exact
+  price: string; // Price per coin
+  fee: string;
+  date: string; // ISO timestamp of the trade
+}
+
+// Fields the user enters; the ID is assigned when the transaction is recorded
+export type TransactionInput = Omit<Transaction, 'id'>;
+
+// Display values worked out with Decimal and converted to numbers at the end
+export interface Holding {
+  coinId: string;
+  symbol: string;
+  name: string;
+  image?: string;
+  quantity: number;
+  costBasis: number; // What the coins still held cost, fees included
+  averageCost: number;
+  currentPrice: number | null; // null until a live quote is available
+  value: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  realizedPnl: number;
+  change24h: number; // Value change over the last 24 hours
+  allocation: number; // Share of the portfolio value, 0-100
+}
+
+export interface PortfolioSummary {
+  holdings: Holding[]; // Largest first; coins that were fully sold are kept for their realized P&L
+  totalValue: number;
+  totalCost: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  realizedPnl: number;
+  change24h: number;
+  change24hPercent: number;
+}
+
+// Oldest first, so sells always see the buys before them
+export const sortTransactions = (transactions: Transaction[]): Transaction[] => {
+  return [...transactions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+// Check a new transaction against the ones already recorded; returns an error message, or null if it is valid
+export const validateTransaction = (transactions: Transaction[], input: TransactionInput): string | null => {
+  if (!input.coinId) return 'Choose a coin';
+
+  const quantity = Decimal.tryParse(input.quantity);
+  const price = Decimal.tryParse(input.price);
+  const fee = input.fee === '' ? Decimal.ZERO : Decimal.tryParse(input.fee);
+  if (!quantity || !quantity.isPositive()) return 'Quantity must be greater than zero';
+  if (!price || price.isNegative()) return 'Enter a valid price';
+  if (!fee || fee.isNegative()) return 'Fee cannot be negative';
+  if (Number.isNaN(new Date(input.date).getTime())) return 'Enter a valid date';
+
+  if (input.type === 'sell') {
+    // The sell must be covered by what was held at its date, and must not break any later sell
+    let held = Decimal.ZERO;
+    const candidate: Transaction = { ...input, id: '' };
+    for (const transaction of sortTransactions([...transactions, candidate])) {
+      if (transaction.coinId !== input.coinId) continue;
+      held = transaction.type === 'buy' ? held.plus(transaction.quantity) : held.minus(transaction.quantity);
+      if (held.isNegative()) {
+        return `You don't hold enough ${input.symbol.toUpperCase()} to sell that much on this date`;
+      }
+    }
+  }
+
+  return null;
+};
+
+// Running totals for one coin while the portfolio is being worked out
+interface Position {
+  coin: Transaction; // First transaction for the coin, for its symbol and name
+  quantity: Decimal;
+  costBasis: Decimal;
+  realizedPnl: Decimal;
+  value: Decimal;
+  change24h: Decimal;
+}
+
+// Work out holdings, P&L and allocation from the transactions and the latest quotes
+export const calculatePortfolio = (
+  transactions: Transaction[],
+  prices: Record<string, CoinData | undefined>,
+  method: LotMethod = 'fifo'
+): PortfolioSummary => {
+  const { openLots, disposals } = matchLots(transactions, method);
+
+  const positions: Map<string, Position> = new Map();
+  for (const transaction of transactions) {
+    if (!positions.has(transaction.coinId)) {
+      positions.set(transaction.coinId, {
+        coin: transaction,
+        quantity: Decimal.ZERO,
+        costBasis: Decimal.ZERO,
+        realizedPnl: Decimal.ZERO,
+        value: Decimal.ZERO,
+        change24h: Decimal.ZERO,
+      });
+    }
+  }
+
+  for (const lot of openLots) {
+    const position = positions.get(lot.coinId);
+    position.quantity = position.quantity.plus(lot.quantity);
+    position.costBasis = position.costBasis.plus(lot.cost);
+  }
+  for (const disposal of disposals) {
+    const position = positions.get(disposal.coinId);
+    position.realizedPnl = position.realizedPnl.plus(disposal.gain);
+  }
+
+  for (const position of positions.values()) {
+    const quote = prices[position.coin.coinId];
+    // Without a quote, value the holding at cost so totals stay meaningful
+    position.value = quote ? position.quantity.times(quote.current_price) : position.costBasis;
+
+    // Value 24 hours ago, backed out from the current price and its 24h change
+    const change = quote?.price_change_percentage_24h ?? 0;
+    if (quote && change > -100 && !position.value.isZero()) {
+      const previousValue = position.value.dividedBy(Decimal.from(change).dividedBy(100).plus(1));
+      position.change24h = position.value.minus(previousValue);
+    }
+  }
+
+  const all = [...positions.values()];
+  const totalValue = Decimal.sum(all.map(position => position.value));
+  const totalCost = Decimal.sum(all.map(position => position.costBasis));
+  const realizedPnl = Decimal.sum(all.map(position => position.realizedPnl));
+  const change24h = Decimal.sum(all.map(position => position.change24h));
+  const unrealizedPnl = totalValue.minus(totalCost);
+  const previousValue = totalValue.minus(change24h);
+
+  const percentOf = (part: Decimal, whole: Decimal): number => {
+    return whole.isPositive() ? part.dividedBy(whole).times(100).toNumber() : 0;
+  };
+
+  const holdings: Holding[] = all.map(position => {
+    const quote = prices[position.coin.coinId];
+    const unrealized = position.value.minus(position.costBasis);
+    return {
+      coinId: position.coin.coinId,
+      symbol: position.coin.symbol,
+      name: position.coin.name,
+      image: quote?.image,
+      quantity: position.quantity.toNumber(),
+      costBasis: position.costBasis.toNumber(),
+      averageCost: position.quantity.isPositive() ? position.costBasis.dividedBy(position.quantity).toNumber() : 0,
+      currentPrice: quote ? quote.current_price : null,
+      value: position.value.toNumber(),
+      unrealizedPnl: unrealized.toNumber(),
+      unrealizedPnlPercent: percentOf(unrealized, position.costBasis),
+      realizedPnl: position.realizedPnl.toNumber(),
+      change24h: position.change24h.toNumber(),
+      allocation: percentOf(position.value, totalValue),
+    };
+  });
+  holdings.sort((a, b) => b.value - a.value || b.realizedPnl - a.realizedPnl);
+
+  return {
+    holdings,
+    totalValue: totalValue.toNumber(),
+    totalCost: totalCost.toNumber(),
+    unrealizedPnl: unrealizedPnl.toNumber(),
+    unrealizedPnlPercent: percentOf(unrealizedPnl, totalCost),
+    realizedPnl: realizedPnl.toNumber(),
+    change24h: change24h.toNumber(),
+    change24hPercent: percentOf(change24h, previousValue),
+  };
+};
@@ -0,0 +1,286 @@
+// Price alerts, evaluated against every set of quotes the market data layer delivers, live ticks included
+// Alerts fire on the edge: once when their condition becomes true. A repeating alert re-arms when the
+// condition clears again; a one-off alert is switched off after it fires.
+// Alerts and their firing history are kept in localStorage; listeners hear about every change and every firing.
+
+import type { CoinData } from './types';
+import { formatPrice, formatPriceChange } from './formatting';
+
+export type AlertCondition =
+  | { kind: 'above'; price: number }
+  | { kind: 'below'; price: number }
+  | { kind: 'change'; percent: number; windowMinutes: number } // Negative percent watches for a drop
+  | { kind: 'high24h' } // Price reaches the 24h high
+  | { kind: 'low24h' }; // Price reaches the 24h low
+
+export type AlertKind = AlertCondition['kind'];
+
+export interface PriceAlert {
+  id: string;
+  coinId: string;
+  symbol: string;
+  name: string;
+  currency: string; // Quotes in other currencies are ignored
+  condition: AlertCondition;
+  repeat: boolean;
+  enabled: boolean;
+  armed: boolean; // False after firing, until the condition clears
+  createdAt: number;
+  lastFiredAt?: number;
+}
+
+export type AlertInput = Pick<PriceAlert, 'coinId' | 'symbol' | 'name' | 'currency' | 'condition' | 'repeat'>;
+
+export interface AlertFiring {
+  id: string;
+  alertId: string;
+  coinId: string;
+  symbol: string;
+  message: string;
+  price: number;
+  currency: string;
+  firedAt: number;
+}
+
+export interface AlertState {
+  alerts: PriceAlert[];
+  history: AlertFiring[]; // Newest first
+}
+
+// localStorage key for alerts and their history
+const ALERTS_STORAGE_KEY = 'godsdollar.alerts';
+
+// Oldest firings are dropped beyond this many
+const MAX_HISTORY = 100;
+
+// Price samples are kept this long for percentage-change windows
+const MAX_SAMPLE_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Windows this long use the API's 24h change instead of our own samples
+const DAY_MINUTES = 24 * 60;
+
+let state: AlertState = { alerts: [], history: [] };
+const changeListeners: Set<(state: AlertState) => void> = new Set();
+const firingListeners: Set<(firing: AlertFiring) => void> = new Set();
+
+// Recent prices per coin and currency, oldest first; only kept in memory
+const samples: Map<string, { time: number; price: number }[]> = new Map();
+
+const loadState = (): AlertState => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ALERTS_STORAGE_KEY) || 'null');
+    if (stored && Array.isArray(stored.alerts) && Array.isArray(stored.history)) {
+      return stored;
+    }
+  } catch {
+    // Start with no alerts
+  }
+  return { alerts: [], history: [] };
+};
+
+const setState = (next: AlertState, persist: boolean = true): void => {
+  state = next;
+  if (persist) {
+    try {
+      localStorage.setItem(ALERTS_STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.warn('Could not save price alerts', error);
+    }
+  }
+  changeListeners.forEach(listener => listener(state));
+};
+
+if (typeof window !== 'undefined') {
+  state = loadState();
+  // Pick up alerts created or fired in other tabs
+  window.addEventListener('storage', event => {
+    if (event.key === ALERTS_STORAGE_KEY) {
+      setState(loadState(), false);
+    }
+  });
+}
+
+const genId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getAlertState = (): AlertState => state;
+
+// Called whenever alerts or the history change; returns an unsubscribe function
+export const subscribeToAlerts = (listener: (state: AlertState) => void): (() => void) => {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+};
+
+// Called for every alert that fires; returns an unsubscribe function
+export const onAlertFired = (listener: (firing: AlertFiring) => void): (() => void) => {
+  firingListeners.add(listener);
+  return () => firingListeners.delete(listener);
+};
+
+export const createAlert = (input: AlertInput): PriceAlert => {
+  const alert: PriceAlert = { ...input, id: genId(), enabled: true, armed: true, createdAt: Date.now() };
+  setState({ ...state, alerts: [...state.alerts, alert] });
+  return alert;
+};
+
+export const removeAlert = (alertId: string): void => {
+  setState({ ...state, alerts: state.alerts.filter(alert => alert.id !== alertId) });
+};
+
+// Turning an alert back on re-arms it
+export const setAlertEnabled = (alertId: string, enabled: boolean): void => {
+  setState({
+    ...state,
+    alerts: state.alerts.map(alert => alert.id === alertId ? { ...alert, enabled, armed: enabled || alert.armed } : alert),
+  });
+};
+
+export const clearAlertHistory = (): void => {
+  setState({ ...state, history: [] });
+};
+
+// Coin IDs with an active alert in the given currency, so they can be kept up to date
+export const getWatchedCoinIds = (currency: string): string[] => {
+  return [...new Set(state.alerts.filter(alert => alert.enabled && alert.currency === currency).map(alert => alert.coinId))];
+};
+
+// Currencies that have at least one active alert
+export const getAlertCurrencies = (): string[] => {
+  return [...new Set(state.alerts.filter(alert => alert.enabled).map(alert => alert.currency))];
+};
+
+// Human readable description of a condition, e.g. "above $70,000"
+export const describeCondition = (condition: AlertCondition, currency: string): string => {
+  switch (condition.kind) {
+    case 'above':
+      return `above ${formatPrice(condition.price, currency)}`;
+    case 'below':
+      return `below ${formatPrice(condition.price, currency)}`;
+    case 'change': {
+      const direction = condition.percent >= 0 ? 'rises' : 'drops';
+      return `${direction} ${Math.abs(condition.percent)}% within ${formatWindow(condition.windowMinutes)}`;
+    }
+    case 'high24h':
+      return 'reaches its 24h high';
+    case 'low24h':
+      return 'reaches its 24h low';
+  }
+};
+
+const formatWindow = (minutes: number): string => {
+  if (minutes % DAY_MINUTES === 0) return `${minutes / DAY_MINUTES}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+};
+
+// Keep the series in time order; a quote seen again at the same fetch time adds nothing
+const recordSample = (key: string, price: number, time: number): void => {
+  const series = (samples.get(key) ?? []).filter(sample => Date.now() - sample.time <= MAX_SAMPLE_AGE_MS);
+  if (series.some(sample => sample.time === time)) return;
+  series.push({ time, price });
+  series.sort((a, b) => a.time - b.time);
+  samples.set(key, series);
+};
+
+// Percentage change over the window, from the API for a full day or from our own samples otherwise.
+// Null until a sample at least as old as the window start exists.
+const changeOverWindow = (coin: CoinData, key: string, windowMinutes: number, now: number): number | null => {
+  if (windowMinutes === DAY_MINUTES) {
+    return coin.price_change_percentage_24h ?? null;
+  }
+
+  const windowStart = now - windowMinutes * 60 * 1000;
+  const series = samples.get(key) ?? [];
+  const baseline = [...series].reverse().find(sample => sample.time <= windowStart);
+  if (!baseline || baseline.price <= 0) return null;
+  return ((coin.current_price - baseline.price) / baseline.price) * 100;
+};
+
+// Whether the condition holds for the quote, or null when it can't be judged yet
+const isMet = (alert: PriceAlert, coin: CoinData, key: string, now: number): boolean | null => {
+  const { condition } = alert;
+  const price = coin.current_price;
+  if (!Number.isFinite(price) || price <= 0) return null;
+
+  switch (condition.kind) {
+    case 'above':
+      return price >= condition.price;
+    case 'below':
+      return price <= condition.price;
+    case 'change': {
+      const change = changeOverWindow(coin, key, condition.windowMinutes, now);
+      if (change === null) return null;
+      return condition.percent >= 0 ? change >= condition.percent : change <= condition.percent;
+    }
+    case 'high24h':
+      return coin.high_24h ? price >= coin.high_24h : null;
+    case 'low24h':
+      return coin.low_24h ? price <= coin.low_24h : null;
+  }
+};
+
+const firingMessage = (alert: PriceAlert, coin: CoinData): string => {
+  const symbol = alert.symbol.toUpperCase();
+  const price = formatPrice(coin.current_price, alert.currency);
+  if (alert.condition.kind === 'change' && alert.condition.windowMinutes === DAY_MINUTES) {
+    return `${symbol} ${describeCondition(alert.condition, alert.currency)} (${formatPriceChange(coin.price_change_percentage_24h)}, now ${price})`;
+  }
+  return `${symbol} ${describeCondition(alert.condition, alert.currency)} (now ${price})`;
+};
+
+// Check every alert against freshly loaded quotes; called by the market data layer after each refresh.
+// quotedAt is when the quotes were fetched, which dates their samples and ends the change windows.
+export const evaluateAlerts = (coins: CoinData[], currency: string, quotedAt: number = Date.now()): AlertFiring[] => {
+  if (state.alerts.length === 0 || coins.length === 0) return [];
+
+  const now = Date.now();
+  const quotes = new Map(coins.map(coin => [coin.id, coin]));
+  const firings: AlertFiring[] = [];
+  let changed = false;
+
+  const watched = new Set(getWatchedCoinIds(currency));
+  const alerts = state.alerts.map(alert => {
+    const coin = quotes.get(alert.coinId);
+    if (!alert.enabled || alert.currency !== currency || !coin) return alert;
+
+    const met = isMet(alert, coin, `${coin.id}_${currency}`, quotedAt);
+    if (met === null) return alert;
+
+    if (met && alert.armed) {
+      changed = true;
+      const firing: AlertFiring = {
+        id: genId(),
+        alertId: alert.id,
+        coinId: alert.coinId,
+        symbol: alert.symbol,
+        message: firingMessage(alert, coin),
+        price: coin.current_price,
+        currency,
+        firedAt: now,
+      };
+      firings.push(firing);
+      return { ...alert, armed: false, enabled: alert.repeat, lastFiredAt: now };
+    }
+
+    if (!met && !alert.armed && alert.repeat) {
+      changed = true;
+      return { ...alert, armed: true };
+    }
+    return alert;
+  });
+
+  // Sample after evaluating so a window's baseline always comes from an earlier refresh
+  for (const coin of coins) {
+    if (watched.has(coin.id)) {
+      recordSample(`${coin.id}_${currency}`, coin.current_price, quotedAt);
+    }
+  }
+
+  if (changed) {
+    setState({
+      alerts,
+      history: [...[...firings].reverse(), ...state.history].slice(0, MAX_HISTORY),
+    });
+    firings.forEach(firing => firingListeners.forEach(listener => listener(firing)));
+  }
+  return firings;
+};
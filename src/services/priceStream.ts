@@ -0,0 +1,262 @@
+// Real-time price streaming over WebSocket with reconnect, heartbeat and a polling fallback
+//
+// Wire protocol (JSON text frames):
+//   client -> server  { type: 'subscribe', ids: string[], currency: string }
+//   client -> server  { type: 'ping' }
+//   server -> client  { type: 'ticker', id, currency, price, change24h?, volume24h?, timestamp }
+//   server -> client  { type: 'pong' }
+//
+// Run `npm run stream:dev` for a local stand-in server that replays price ticks, then start
+// the app with VITE_PRICE_STREAM_URL=ws://localhost:8787.
+
+import type { CoinData } from './types';
+
+// Streaming endpoint; without one the stream stays in polling mode
+export const PRICE_STREAM_URL = import.meta.env.VITE_PRICE_STREAM_URL || '';
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000; // How often we ping the server
+const HEARTBEAT_TIMEOUT_MS = 35 * 1000; // Reconnect if nothing arrives for this long
+const RECONNECT_BASE_MS = 1000; // First reconnect delay, doubled on each attempt
+const RECONNECT_MAX_MS = 30 * 1000;
+const MAX_RECONNECT_ATTEMPTS = 5; // After this many failures we fall back to polling
+const POLLING_RETRY_MS = 5 * 60 * 1000; // How long to poll before trying the socket again
+const FLUSH_INTERVAL_MS = 1000; // Ticks are batched so the UI re-renders at most once a second
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'polling';
+
+export interface PriceTick {
+  id: string;
+  currency: string;
+  price: number;
+  change24h?: number;
+  volume24h?: number;
+  timestamp: number;
+}
+
+interface StreamMessage {
+  type: string;
+  [key: string]: unknown;
+}
+
+interface PriceStreamHandlers {
+  onTicks: (ticks: PriceTick[]) => void;
+  onStatusChange?: (status: StreamStatus) => void;
+}
+
+// Merge ticker updates into coin data, keeping the 24h range in step with new prices
+export const mergePriceTicks = (coins: CoinData[], ticks: PriceTick[]): CoinData[] => {
+  if (ticks.length === 0) return coins;
+
+  const latest: Map<string, PriceTick> = new Map();
+  for (const tick of ticks) {
+    const previous = latest.get(tick.id);
+    if (!previous || previous.timestamp <= tick.timestamp) {
+      latest.set(tick.id, tick);
+    }
+  }
+
+  let changed = false;
+  const merged = coins.map(coin => {
+    const tick = latest.get(coin.id);
+    if (!tick || tick.price === coin.current_price) return coin;
+
+    changed = true;
+    return {
+      ...coin,
+      current_price: tick.price,
+      price_change_percentage_24h: tick.change24h ?? coin.price_change_percentage_24h,
+      total_volume: tick.volume24h ?? coin.total_volume,
+      high_24h: coin.high_24h !== undefined ? Math.max(coin.high_24h, tick.price) : coin.high_24h,
+      low_24h: coin.low_24h !== undefined ? Math.min(coin.low_24h, tick.price) : coin.low_24h,
+    };
+  });
+
+  return changed ? merged : coins;
+};
+
+export class PriceStream {
+  private socket: WebSocket | null = null;
+  private status: StreamStatus = 'idle';
+  private ids: string[] = [];
+  private currency: string = 'usd';
+  private pendingTicks: PriceTick[] = [];
+  private reconnectAttempts: number = 0;
+  private lastMessageAt: number = 0;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed: boolean = false;
+
+  constructor(private url: string, private handlers: PriceStreamHandlers) {}
+
+  // Start streaming; without a URL or WebSocket support we go straight to polling
+  start(): void {
+    this.closed = false;
+    if (!this.url || typeof WebSocket === 'undefined') {
+      this.setStatus('polling');
+      return;
+    }
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    this.connect();
+  }
+
+  // Stop streaming and release the socket and timers
+  stop(): void {
+    this.closed = true;
+    this.clearTimers();
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    this.pendingTicks = [];
+    this.setStatus('idle');
+  }
+
+  // Replace the set of subscribed coins and the quote currency
+  subscribe(ids: string[], currency: string): void {
+    this.ids = ids;
+    this.currency = currency;
+    // Ticks in the old currency must not leak into the new one
+    this.pendingTicks = this.pendingTicks.filter(tick => tick.currency === currency);
+    this.sendSubscription();
+  }
+
+  getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  private connect(): void {
+    if (this.closed) return;
+
+    this.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    try {
+      this.socket = new WebSocket(this.url);
+    } catch (error) {
+      console.warn('Unable to open price stream', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      this.setStatus('open');
+      this.sendSubscription();
+      this.startHeartbeat();
+    };
+
+    this.socket.onmessage = (event: MessageEvent) => {
+      this.lastMessageAt = Date.now();
+      this.handleMessage(event.data);
+    };
+
+    this.socket.onerror = () => {
+      // onclose follows every error, so reconnecting is handled there
+      console.warn('Price stream error');
+    };
+
+    this.socket.onclose = () => {
+      this.socket = null;
+      this.clearTimers();
+      this.scheduleReconnect();
+    };
+  }
+
+  private handleMessage(raw: unknown): void {
+    if (typeof raw !== 'string') return;
+
+    let message: StreamMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      console.warn('Ignoring malformed price stream message');
+      return;
+    }
+
+    if (message.type !== 'ticker') return;
+
+    const tick: PriceTick = {
+      id: String(message.id),
+      currency: String(message.currency || this.currency).toLowerCase(),
+      price: Number(message.price),
+      change24h: typeof message.change24h === 'number' ? message.change24h : undefined,
+      volume24h: typeof message.volume24h === 'number' ? message.volume24h : undefined,
+      timestamp: typeof message.timestamp === 'number' ? message.timestamp : Date.now(),
+    };
+
+    if (tick.currency === this.currency && Number.isFinite(tick.price) && this.ids.includes(tick.id)) {
+      this.pendingTicks.push(tick);
+    }
+  }
+
+  private flush(): void {
+    if (this.pendingTicks.length === 0) return;
+    const ticks = this.pendingTicks;
+    this.pendingTicks = [];
+    this.handlers.onTicks(ticks);
+  }
+
+  private sendSubscription(): void {
+    this.send({ type: 'subscribe', ids: this.ids, currency: this.currency });
+  }
+
+  private send(message: StreamMessage): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  // Ping regularly and drop the connection if the server has gone quiet
+  private startHeartbeat(): void {
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > HEARTBEAT_TIMEOUT_MS) {
+        console.warn('Price stream heartbeat timed out, reconnecting');
+        this.socket?.close();
+        return;
+      }
+      this.send({ type: 'ping' });
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  // Exponential backoff, falling back to polling after repeated failures
+  private scheduleReconnect(): void {
+    if (this.closed) return;
+
+    this.reconnectAttempts++;
+
+    if (this.reconnectAttempts > MAX_RECONNECT_ATTEMPTS) {
+      console.warn(`Price stream unavailable, polling for ${POLLING_RETRY_MS / 1000} seconds`);
+      this.setStatus('polling');
+      this.reconnectAttempts = 0;
+      this.reconnectTimer = setTimeout(() => this.connect(), POLLING_RETRY_MS);
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** (this.reconnectAttempts - 1), RECONNECT_MAX_MS);
+    this.setStatus('reconnecting');
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private clearTimers(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setStatus(status: StreamStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.handlers.onStatusChange?.(status);
+  }
+}
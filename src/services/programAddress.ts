@@ -0,0 +1,68 @@
+// Program derived addresses (PDAs)
+// A PDA is the SHA-256 of its seeds, a bump byte, the program ID and a marker, picked so that the result is
+// not a valid ed25519 public key and so has no private key. The highest bump that works is the canonical one.
+
+import { decodeBase58, encodeBase58 } from './base58';
+
+// Field prime and curve constant of ed25519
+const P = 2n ** 255n - 19n;
+
+const mod = (value: bigint): bigint => ((value % P) + P) % P;
+
+const modPow = (base: bigint, exponent: bigint): bigint => {
+  let result = 1n;
+  base = mod(base);
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % P;
+    base = (base * base) % P;
+    exponent >>= 1n;
+  }
+  return result;
+};
+
+const D = mod(-121665n * modPow(121666n, P - 2n));
+
+// True when the bytes decompress to a point on ed25519, i.e. they could be someone's public key
+export const isOnCurve = (bytes: Uint8Array): boolean => {
+  // y is stored little-endian; the top bit holds the sign of x
+  let y = 0n;
+  for (let i = 31; i >= 0; i--) {
+    y = (y << 8n) | BigInt(i === 31 ? bytes[i] & 0x7f : bytes[i]);
+  }
+
+  // From -x² + y² = 1 + d·x²·y², x² = (y² - 1) / (d·y² + 1), which must be a square
+  const y2 = mod(y * y);
+  const x2 = mod((y2 - 1n) * modPow(D * y2 + 1n, P - 2n));
+  return x2 === 0n || modPow(x2, (P - 1n) / 2n) === 1n;
+};
+
+const PDA_MARKER = new TextEncoder().encode('ProgramDerivedAddress');
+
+const sha256 = async (parts: Uint8Array[]): Promise<Uint8Array> => {
+  const data = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+};
+
+// Find the canonical PDA of a program for the given seeds
+export const findProgramAddress = async (
+  seeds: Uint8Array[],
+  programId: string
+): Promise<{ address: string; bump: number }> => {
+  const program = decodeBase58(programId);
+  if (!program || program.length !== 32) {
+    throw new Error(`Invalid program ID ${programId}`);
+  }
+
+  for (let bump = 255; bump >= 0; bump--) {
+    const hash = await sha256([...seeds, Uint8Array.of(bump), program, PDA_MARKER]);
+    if (!isOnCurve(hash)) {
+      return { address: encodeBase58(hash), bump };
+    }
+  }
+  throw new Error(`No program address found for ${programId}`);
+};
@@ -0,0 +1,261 @@
+// Circuit breakers and health tracking for market data providers
+// Each provider and each provider endpoint has its own breaker:
+//   closed    - requests flow normally; consecutive failures are counted
+//   open      - requests are skipped until the cooldown passes, so a service that is down isn't hammered
+//   half-open - a single trial request decides whether to close again or reopen with a longer cooldown
+// Health stats and the coin ID blacklist are persisted so a reload doesn't start from scratch.
+
+import { deleteEntry, loadEntries, saveEntry } from './cacheStorage';
+import { isAbortError } from './requestCoalescing';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface HealthStats {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  openedAt: number; // When the breaker last opened
+  cooldownMs: number; // How long it stays open before a trial request
+  lastSuccessAt: number;
+  lastFailureAt: number;
+  lastError?: string;
+}
+
+export interface HealthConfig {
+  failureThreshold: number; // Consecutive failures that open a breaker
+  openMs: number; // First cooldown, doubled each time a trial fails
+  maxOpenMs: number;
+  blacklistTtlMs: number; // How long a bad coin ID is skipped
+}
+
+// Thrown instead of calling a provider whose breaker is open
+export class CircuitOpenError extends Error {
+  constructor(public key: string, public retryAt: number) {
+    super(`Circuit open for ${key}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+let config: HealthConfig = {
+  failureThreshold: 3,
+  openMs: 30 * 1000,
+  maxOpenMs: 10 * 60 * 1000,
+  blacklistTtlMs: (Number(import.meta.env.VITE_BLACKLIST_TTL_HOURS) || 24) * 60 * 60 * 1000,
+};
+
+// Delay before health changes are written, so bursts of requests cause one write per key
+const PERSIST_DELAY_MS = 2000;
+
+const breakers: Map<string, HealthStats> = new Map();
+const halfOpenTrials: Set<string> = new Set(); // Breakers with a trial request in flight
+const blacklist: Map<string, number> = new Map(); // Coin ID -> time the entry expires
+const dirtyKeys: Set<string> = new Set();
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+const emptyStats = (): HealthStats => ({
+  state: 'closed',
+  consecutiveFailures: 0,
+  totalSuccesses: 0,
+  totalFailures: 0,
+  openedAt: 0,
+  cooldownMs: 0,
+  lastSuccessAt: 0,
+  lastFailureAt: 0,
+});
+
+// Restore persisted health and blacklist entries
+const hydrate = async (): Promise<void> => {
+  const [healthEntries, blacklistEntries] = await Promise.all([
+    loadEntries<HealthStats>('health'),
+    loadEntries<number>('blacklist')
+  ]);
+
+  for (const { key, value } of healthEntries) {
+    if (!breakers.has(key)) {
+      // A trial that was in flight when the page closed never finished, so treat it as open again
+      breakers.set(key, value.state === 'half-open' ? { ...value, state: 'open' } : value);
+    }
+  }
+
+  const now = Date.now();
+  for (const { key, value } of blacklistEntries) {
+    if (value <= now) {
+      deleteEntry('blacklist', key);
+    } else if (!blacklist.has(key)) {
+      blacklist.set(key, value);
+    }
+  }
+};
+
+// Resolves once persisted health has been restored
+export const healthReady: Promise<void> = hydrate();
+
+// Change thresholds, cooldowns or the blacklist expiry
+export const configureHealth = (overrides: Partial<HealthConfig>): void => {
+  config = { ...config, ...overrides };
+};
+
+const schedulePersist = (key: string): void => {
+  dirtyKeys.add(key);
+  if (persistTimer) return;
+
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    for (const dirtyKey of dirtyKeys) {
+      const stats = breakers.get(dirtyKey);
+      if (stats) saveEntry('health', dirtyKey, stats);
+    }
+    dirtyKeys.clear();
+  }, PERSIST_DELAY_MS);
+};
+
+const getStats = (key: string): HealthStats => {
+  let stats = breakers.get(key);
+  if (!stats) {
+    stats = emptyStats();
+    breakers.set(key, stats);
+  }
+  return stats;
+};
+
+// Check one breaker, moving it to half-open once its cooldown has passed
+const allows = (key: string): boolean => {
+  const stats = getStats(key);
+
+  if (stats.state === 'open' && Date.now() >= stats.openedAt + stats.cooldownMs) {
+    stats.state = 'half-open';
+    schedulePersist(key);
+  }
+
+  if (stats.state === 'half-open') {
+    return !halfOpenTrials.has(key);
+  }
+  return stats.state === 'closed';
+};
+
+const breakerKeys = (providerId: string, endpoint: string): string[] => [providerId, `${providerId}:${endpoint}`];
+
+// Whether a request to this provider endpoint should be attempted right now
+export const canRequest = (providerId: string, endpoint: string): boolean => {
+  return breakerKeys(providerId, endpoint).every(allows);
+};
+
+// Claim the trial slot of any half-open breaker before sending a request
+const beginRequest = (providerId: string, endpoint: string): void => {
+  for (const key of breakerKeys(providerId, endpoint)) {
+    if (getStats(key).state === 'half-open') {
+      halfOpenTrials.add(key);
+    }
+  }
+};
+
+export const recordSuccess = (providerId: string, endpoint: string): void => {
+  for (const key of breakerKeys(providerId, endpoint)) {
+    const stats = getStats(key);
+    if (stats.state !== 'closed' && import.meta.env.DEV) {
+      console.debug(`Circuit closed for ${key}`);
+    }
+    stats.state = 'closed';
+    stats.consecutiveFailures = 0;
+    stats.cooldownMs = 0;
+    stats.totalSuccesses++;
+    stats.lastSuccessAt = Date.now();
+    halfOpenTrials.delete(key);
+    schedulePersist(key);
+  }
+};
+
+export const recordFailure = (providerId: string, endpoint: string, error?: unknown): void => {
+  for (const key of breakerKeys(providerId, endpoint)) {
+    const stats = getStats(key);
+    const now = Date.now();
+    stats.consecutiveFailures++;
+    stats.totalFailures++;
+    stats.lastFailureAt = now;
+    stats.lastError = error instanceof Error ? error.message : error !== undefined ? String(error) : undefined;
+
+    const trialFailed = stats.state === 'half-open';
+    if (trialFailed || (stats.state === 'closed' && stats.consecutiveFailures >= config.failureThreshold)) {
+      stats.state = 'open';
+      stats.openedAt = now;
+      stats.cooldownMs = trialFailed
+        ? Math.min(config.maxOpenMs, Math.max(config.openMs, stats.cooldownMs * 2))
+        : config.openMs;
+      console.warn(`Circuit opened for ${key}, skipping it for ${Math.round(stats.cooldownMs / 1000)} seconds`);
+    }
+
+    halfOpenTrials.delete(key);
+    schedulePersist(key);
+  }
+};
+
+// Only outages count against a service; bad input such as an unknown coin ID does not
+const isServiceFailure = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = (error as { response?: { status?: number } })?.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+};
+
+// Run a request through the provider's breakers, throwing CircuitOpenError while they are open
+export async function withCircuitBreaker<T>(
+  providerId: string,
+  endpoint: string,
+  request: () => Promise<T>
+): Promise<T> {
+  if (!canRequest(providerId, endpoint)) {
+    const stats = getStats(`${providerId}:${endpoint}`);
+    const provider = getStats(providerId);
+    throw new CircuitOpenError(
+      `${providerId}:${endpoint}`,
+      Math.max(stats.openedAt + stats.cooldownMs, provider.openedAt + provider.cooldownMs)
+    );
+  }
+
+  beginRequest(providerId, endpoint);
+  try {
+    const result = await request();
+    recordSuccess(providerId, endpoint);
+    return result;
+  } catch (error) {
+    if (isServiceFailure(error)) {
+      recordFailure(providerId, endpoint, error);
+    } else {
+      // The service answered, so a pending trial has done its job
+      for (const key of breakerKeys(providerId, endpoint)) {
+        halfOpenTrials.delete(key);
+      }
+    }
+    throw error;
+  }
+}
+
+// Snapshot of every breaker, keyed by provider or provider:endpoint
+export const getHealthStats = (): Record<string, HealthStats> => {
+  return Object.fromEntries([...breakers.entries()].map(([key, stats]) => [key, { ...stats }]));
+};
+
+// Skip a coin ID for the configured time, e.g. after the API says it doesn't exist
+export const addToBlacklist = (coinId: string, ttlMs: number = config.blacklistTtlMs): void => {
+  const key = coinId.toLowerCase();
+  const expiresAt = Date.now() + ttlMs;
+  blacklist.set(key, expiresAt);
+  saveEntry('blacklist', key, expiresAt);
+  if (import.meta.env.DEV) {
+    console.debug(`Added ${coinId} to API call blacklist for ${Math.round(ttlMs / 60000)} minutes`);
+  }
+};
+
+// Check if a coin ID is blacklisted, dropping the entry once it has expired
+export const isBlacklisted = (coinId: string): boolean => {
+  const key = coinId.toLowerCase();
+  const expiresAt = blacklist.get(key);
+  if (expiresAt === undefined) return false;
+
+  if (expiresAt <= Date.now()) {
+    blacklist.delete(key);
+    deleteEntry('blacklist', key);
+    return false;
+  }
+  return true;
+};
@@ -0,0 +1,101 @@
+// pump.fun bonding curves
+// Tokens launched on pump.fun are sold from a bonding curve account (a PDA of the mint) priced by
+// constant-product virtual reserves. Once the curve's tokens sell out it is marked complete and the token
+// graduates to an AMM pool, after which market APIs take over.
+
+import { findProgramAddress } from './programAddress';
+import { decodeBase58 } from './base58';
+import { LAMPORTS_PER_SOL, decodeAccountData, getAccountInfo } from './solanaRpc';
+
+export const PUMP_FUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+
+// Every pump.fun token has 6 decimals
+export const PUMP_TOKEN_DECIMALS = 6;
+
+// Tokens a fresh curve can sell before it completes, in whole tokens; the rest of the supply seeds the AMM pool
+const INITIAL_REAL_TOKEN_RESERVES = 793_100_000;
+
+// Anchor account discriminator of BondingCurve
+const BONDING_CURVE_DISCRIMINATOR = [23, 183, 248, 55, 96, 216, 172, 96];
+
+// The account as stored on chain, in raw units (lamports and base token units)
+export interface BondingCurveAccount {
+  virtualTokenReserves: bigint;
+  virtualSolReserves: bigint;
+  realTokenReserves: bigint;
+  realSolReserves: bigint;
+  tokenTotalSupply: bigint;
+  complete: boolean;
+}
+
+export interface BondingCurve {
+  address: string;
+  virtualSolReserves: number; // In SOL
+  virtualTokenReserves: number; // In whole tokens
+  realSolReserves: number; // SOL actually paid into the curve
+  realTokenReserves: number; // Tokens still for sale
+  tokenTotalSupply: number;
+  complete: boolean; // True once graduated to an AMM pool
+  progress: number; // Percent of the curve's tokens sold
+  priceSol: number | null; // SOL per token implied by the virtual reserves; null after graduation
+}
+
+// Decode bonding curve account data; null when the bytes aren't a bonding curve.
+// Layout: discriminator (8), five u64 fields, complete (bool). Newer accounts append fields we don't need.
+export const decodeBondingCurve = (data: Uint8Array): BondingCurveAccount | null => {
+  if (data.length < 49 || BONDING_CURVE_DISCRIMINATOR.some((byte, i) => data[i] !== byte)) {
+    return null;
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return {
+    virtualTokenReserves: view.getBigUint64(8, true),
+    virtualSolReserves: view.getBigUint64(16, true),
+    realTokenReserves: view.getBigUint64(24, true),
+    realSolReserves: view.getBigUint64(32, true),
+    tokenTotalSupply: view.getBigUint64(40, true),
+    complete: data[48] !== 0,
+  };
+};
+
+// Address of a mint's bonding curve, the PDA of ["bonding-curve", mint]
+export const findBondingCurveAddress = async (mint: string): Promise<string> => {
+  const mintBytes = decodeBase58(mint);
+  if (!mintBytes || mintBytes.length !== 32) {
+    throw new Error(`Invalid mint address ${mint}`);
+  }
+  const { address } = await findProgramAddress([new TextEncoder().encode('bonding-curve'), mintBytes], PUMP_FUN_PROGRAM_ID);
+  return address;
+};
+
+// Read and decode a mint's bonding curve; null when the token wasn't launched on pump.fun
+export const fetchBondingCurve = async (mint: string, signal?: AbortSignal): Promise<BondingCurve | null> => {
+  const address = await findBondingCurveAddress(mint);
+  const account = await getAccountInfo(address, {}, signal);
+  if (!account || account.owner !== PUMP_FUN_PROGRAM_ID) return null;
+
+  const curve = decodeBondingCurve(decodeAccountData(account.data));
+  if (!curve) {
+    console.warn(`Unrecognised bonding curve account ${address}`);
+    return null;
+  }
+
+  const tokens = (raw: bigint) => Number(raw) / 10 ** PUMP_TOKEN_DECIMALS;
+  const sol = (raw: bigint) => Number(raw) / LAMPORTS_PER_SOL;
+  const realTokenReserves = tokens(curve.realTokenReserves);
+  const sold = curve.complete ? 1 : 1 - realTokenReserves / INITIAL_REAL_TOKEN_RESERVES;
+
+  return {
+    address,
+    virtualSolReserves: sol(curve.virtualSolReserves),
+    virtualTokenReserves: tokens(curve.virtualTokenReserves),
+    realSolReserves: sol(curve.realSolReserves),
+    realTokenReserves,
+    tokenTotalSupply: tokens(curve.tokenTotalSupply),
+    complete: curve.complete,
+    progress: Math.min(100, Math.max(0, sold * 100)),
+    priceSol: curve.complete || curve.virtualTokenReserves === 0n
+      ? null
+      : sol(curve.virtualSolReserves) / tokens(curve.virtualTokenReserves),
+  };
+};
@@ -0,0 +1,274 @@
+// Adaptive request scheduler for rate-limited APIs
+// Requests wait in priority queues and spend tokens from a bucket that refills at the allowed rate.
+// A 429 pauses the whole scheduler for the time the server asks for (Retry-After or x-ratelimit-reset),
+// or for an exponential backoff with jitter when it gives no hint, and halves the refill rate until
+// requests succeed again.
+
+import { createAbortError } from './requestCoalescing';
+
+// Visible widgets use 'high' or 'normal'; background work such as image lookups uses 'low'
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+const PRIORITIES: RequestPriority[] = ['high', 'normal', 'low'];
+
+export interface RateLimitConfig {
+  capacity: number; // Largest burst of requests sent back to back
+  refillPerSecond: number; // Sustained request rate
+  maxRetries: number; // Retries after a 429 before the request fails
+  baseBackoffMs: number; // First backoff when the server gives no retry hint
+  maxBackoffMs: number;
+}
+
+export interface ScheduleOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+  retries?: number; // Overrides maxRetries for this request
+}
+
+// Thrown by tasks that see a 429 outside axios, e.g. from fetch
+export class RateLimitError extends Error {
+  constructor(public retryAfterMs?: number) {
+    super('Rate limited');
+    this.name = 'RateLimitError';
+  }
+}
+
+type HeaderSource = { get(name: string): unknown } | Record<string, unknown>;
+
+// Read a header from fetch Headers, AxiosHeaders or a plain object
+const readHeader = (headers: HeaderSource | undefined, name: string): string | undefined => {
+  if (!headers) return undefined;
+  const value = typeof headers.get === 'function'
+    ? (headers as { get(name: string): unknown }).get(name)
+    : (headers as Record<string, unknown>)[name];
+  return value === undefined || value === null ? undefined : String(value);
+};
+
+// Convert a header holding seconds, epoch seconds or an HTTP date into a delay in milliseconds
+const toDelayMs = (value: string, allowEpoch: boolean): number | undefined => {
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    // Reset headers sometimes carry a Unix timestamp rather than a number of seconds
+    if (allowEpoch && seconds > 1e9) {
+      return Math.max(0, seconds * 1000 - Date.now());
+    }
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// How long the server asked us to wait, from Retry-After or x-ratelimit-reset
+export const parseRetryDelay = (headers: HeaderSource | undefined): number | undefined => {
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (retryAfter) {
+    const delay = toDelayMs(retryAfter, false);
+    if (delay !== undefined) return delay;
+  }
+
+  const reset = readHeader(headers, 'x-ratelimit-reset');
+  return reset ? toDelayMs(reset, true) : undefined;
+};
+
+// Rate limit details for an error, or null if the error is not a 429
+export const getRateLimitInfo = (error: unknown): { retryAfterMs?: number } | null => {
+  if (error instanceof RateLimitError) {
+    return { retryAfterMs: error.retryAfterMs };
+  }
+
+  const response = (error as { response?: { status?: number; headers?: HeaderSource } })?.response;
+  if (response?.status === 429) {
+    return { retryAfterMs: parseRetryDelay(response.headers) };
+  }
+  return null;
+};
+
+export const isRateLimitError = (error: unknown): boolean => getRateLimitInfo(error) !== null;
+
+interface QueuedTask {
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  priority: RequestPriority;
+  retries: number;
+  attempt: number;
+  settled: boolean;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+export class RateLimitScheduler {
+  private queues: Record<RequestPriority, QueuedTask[]> = { high: [], normal: [], low: [] };
+  private tokens: number;
+  private refillRate: number; // Current rate, lowered after 429s and recovered on success
+  private lastRefill: number = Date.now();
+  private pausedUntil: number = 0;
+  private consecutiveRateLimits: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private name: string, private config: RateLimitConfig) {
+    this.tokens = config.capacity;
+    this.refillRate = config.refillPerSecond;
+  }
+
+  // Update the bucket size, rate or retry policy
+  configure(config: Partial<RateLimitConfig>): void {
+    this.refill();
+    this.config = { ...this.config, ...config };
+    this.tokens = Math.min(this.tokens, this.config.capacity);
+    this.refillRate = this.config.refillPerSecond;
+    this.pump();
+  }
+
+  // Queue a request; it runs once a token is available and nothing of higher priority is waiting
+  schedule<T>(run: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { priority = 'normal', signal, retries = this.config.maxRetries } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const task: QueuedTask = {
+        run,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        priority,
+        retries,
+        attempt: 0,
+        settled: false,
+        signal,
+      };
+
+      // Drop the request from the queue if the caller gives up while it is waiting
+      task.onAbort = () => {
+        const queue = this.queues[task.priority];
+        const index = queue.indexOf(task);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          this.settle(task, () => reject(createAbortError()));
+        }
+      };
+      signal?.addEventListener('abort', task.onAbort, { once: true });
+
+      this.queues[priority].push(task);
+      this.pump();
+    });
+  }
+
+  // True while we are waiting out a 429
+  isRateLimited(): boolean {
+    return Date.now() < this.pausedUntil;
+  }
+
+  // Pause all requests for the given time, e.g. when a rate limit is reported out of band
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+    this.pump();
+  }
+
+  // Number of requests waiting for a token
+  getQueueLength(): number {
+    return PRIORITIES.reduce((total, priority) => total + this.queues[priority].length, 0);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.config.capacity, this.tokens + elapsed * this.refillRate);
+    this.lastRefill = now;
+  }
+
+  private nextTask(): QueuedTask | undefined {
+    for (const priority of PRIORITIES) {
+      const task = this.queues[priority].shift();
+      if (task) return task;
+    }
+    return undefined;
+  }
+
+  // Start as many queued requests as the bucket allows, then wake up when the next token is due
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      this.timer = setTimeout(() => this.pump(), this.pausedUntil - now);
+      return;
+    }
+
+    this.refill();
+    while (this.tokens >= 1) {
+      const task = this.nextTask();
+      if (!task) return;
+      this.tokens -= 1;
+      this.execute(task);
+    }
+
+    if (this.getQueueLength() > 0) {
+      const waitMs = ((1 - this.tokens) / this.refillRate) * 1000;
+      this.timer = setTimeout(() => this.pump(), Math.max(waitMs, 10));
+    }
+  }
+
+  private execute(task: QueuedTask): void {
+    task.run().then(
+      value => {
+        this.recordSuccess();
+        this.settle(task, () => task.resolve(value));
+      },
+      error => {
+        const rateLimit = getRateLimitInfo(error);
+        if (!rateLimit || task.signal?.aborted) {
+          this.settle(task, () => task.reject(error));
+          return;
+        }
+
+        this.recordRateLimit(rateLimit.retryAfterMs);
+        if (task.attempt >= task.retries) {
+          this.settle(task, () => task.reject(error));
+          return;
+        }
+
+        // Retry ahead of everything else at the same priority once the pause is over
+        task.attempt++;
+        this.queues[task.priority].unshift(task);
+        this.pump();
+      }
+    );
+  }
+
+  private settle(task: QueuedTask, done: () => void): void {
+    if (task.settled) return;
+    task.settled = true;
+    if (task.onAbort) {
+      task.signal?.removeEventListener('abort', task.onAbort);
+    }
+    done();
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveRateLimits = 0;
+    // Creep back towards the configured rate after a slowdown
+    this.refillRate = Math.min(this.config.refillPerSecond, this.refillRate * 1.1);
+  }
+
+  private recordRateLimit(retryAfterMs?: number): void {
+    const backoff = Math.min(this.config.maxBackoffMs, this.config.baseBackoffMs * 2 ** this.consecutiveRateLimits);
+    this.consecutiveRateLimits++;
+    this.refillRate = Math.max(this.config.refillPerSecond / 8, this.refillRate / 2);
+
+    // Jitter spreads retries out so queued requests don't all fire at the same moment
+    const delay = retryAfterMs !== undefined
+      ? retryAfterMs + Math.random() * 1000
+      : backoff / 2 + Math.random() * (backoff / 2);
+
+    console.warn(`Rate limited by ${this.name}. Pausing requests for ${Math.round(delay / 1000)} seconds.`);
+    this.pause(delay);
+  }
+}
@@ -0,0 +1,110 @@
+// In-flight request coalescing with per-caller cancellation
+// Callers asking for the same key share one underlying request. Each caller can abort with its
+// own AbortSignal; the shared request is only aborted once every caller has given up on it.
+
+interface InflightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const inflight: Map<string, InflightRequest<unknown>> = new Map();
+
+// Error used when a caller cancels, matching what fetch throws for an aborted request
+export const createAbortError = (): Error => {
+  return new DOMException('The operation was aborted', 'AbortError');
+};
+
+// True for aborts from fetch, axios or coalesced requests; these are not real failures
+export const isAbortError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') return false;
+  const { name, code } = error as { name?: string; code?: string };
+  return name === 'AbortError' || name === 'CanceledError' || code === 'ERR_CANCELED';
+};
+
+// Build a stable key from a URL and its query params, independent of param order
+export const requestKey = (url: string, params: Record<string, unknown> = {}): string => {
+  const query = Object.keys(params)
+    .filter(key => params[key] !== undefined)
+    .sort()
+    .map(key => `${key}=${String(params[key])}`)
+    .join('&');
+  return query ? `${url}?${query}` : url;
+};
+
+// Wait for the given time, rejecting early if the signal aborts
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Join the in-flight request for this key, or start one with the given fetcher
+export function coalesceRequest<T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  let request = inflight.get(key) as InflightRequest<T> | undefined;
+  if (!request) {
+    const controller = new AbortController();
+    const created: InflightRequest<T> = {
+      controller,
+      subscribers: 0,
+      promise: fetcher(controller.signal).finally(() => {
+        if (inflight.get(key) === created) {
+          inflight.delete(key);
+        }
+      }),
+    };
+    request = created;
+    inflight.set(key, request);
+  }
+
+  const shared = request;
+  shared.subscribers++;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      shared.subscribers--;
+      // Nobody is waiting any more, so stop the underlying request too
+      if (shared.subscribers === 0) {
+        if (inflight.get(key) === shared) {
+          inflight.delete(key);
+        }
+        shared.controller.abort();
+      }
+      reject(createAbortError());
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    shared.promise.then(
+      value => {
+        signal?.removeEventListener('abort', onAbort);
+        if (!signal?.aborted) resolve(value);
+      },
+      error => {
+        signal?.removeEventListener('abort', onAbort);
+        if (!signal?.aborted) reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,66 @@
+// Balances and activity of a Solana address, read over JSON-RPC
+
+import { GODD_MINT, LAMPORTS_PER_SOL, SolanaRpcError, getBalance, getSignaturesForAddress, getTokenAccountsByOwner } from './solanaRpc';
+
+export interface WalletSummary {
+  sol: number;
+  godd: number | null; // Null when the GODD mint doesn't exist on the configured cluster
+  transactionCount: number;
+  transactionCountCapped: boolean; // True when the address has more than MAX_SIGNATURE_PAGES pages of history
+}
+
+// getSignaturesForAddress returns at most this many signatures per call
+const SIGNATURES_PAGE_SIZE = 1000;
+
+// Stop counting after this many pages so very busy addresses don't cost dozens of calls
+const MAX_SIGNATURE_PAGES = 5;
+
+// SOL held by the address
+export const fetchSolBalance = async (address: string, signal?: AbortSignal): Promise<number> => {
+  const lamports = await getBalance(address, {}, signal);
+  return lamports / LAMPORTS_PER_SOL;
+};
+
+// Tokens of one mint held by the address across all its token accounts; null when the mint doesn't exist
+export const fetchTokenBalance = async (address: string, mint: string, signal?: AbortSignal): Promise<number | null> => {
+  try {
+    const accounts = await getTokenAccountsByOwner(address, { mint }, {}, signal);
+    return accounts.reduce((total, { account }) => total + Number(account.data.parsed.info.tokenAmount.uiAmountString), 0);
+  } catch (error) {
+    // The node rejects the filter when the mint isn't on this cluster, e.g. a fresh local validator
+    if (error instanceof SolanaRpcError) {
+      console.warn(`Token balance unavailable for mint ${mint}`, error);
+      return null;
+    }
+    throw error;
+  }
+};
+
+// Count the address's transactions, newest first, one page of signatures at a time
+export const fetchTransactionCount = async (
+  address: string,
+  signal?: AbortSignal
+): Promise<{ count: number; capped: boolean }> => {
+  let count = 0;
+  let before: string | undefined;
+
+  for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+    const signatures = await getSignaturesForAddress(address, { limit: SIGNATURES_PAGE_SIZE, before }, signal);
+    count += signatures.length;
+    if (signatures.length < SIGNATURES_PAGE_SIZE) {
+      return { count, capped: false };
+    }
+    before = signatures[signatures.length - 1].signature;
+  }
+  return { count, capped: true };
+};
+
+// Everything the wallet widget shows for an address
+export const fetchWalletSummary = async (address: string, signal?: AbortSignal): Promise<WalletSummary> => {
+  const [sol, godd, transactions] = await Promise.all([
+    fetchSolBalance(address, signal),
+    fetchTokenBalance(address, GODD_MINT, signal),
+    fetchTransactionCount(address, signal),
+  ]);
+  return { sol, godd, transactionCount: transactions.count, transactionCountCapped: transactions.capped };
+};
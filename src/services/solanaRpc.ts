@@ -0,0 +1,408 @@
+// Typed Solana JSON-RPC client
+// Calls made within a few milliseconds of each other go out together as one JSON-RPC batch, and requests
+// that fail with a network error, 429 or 5xx are retried with exponential backoff (or after Retry-After).
+// Point VITE_SOLANA_RPC_URL at a dedicated RPC provider in production; the public endpoint is heavily rate limited.
+// To test against a local cluster:
+//   solana-test-validator                       (then point the wallet at localnet / http://127.0.0.1:8899)
+//   solana airdrop 2 <wallet address> --url localhost
+//   spl-token create-token --url localhost      (prints the mint address)
+//   spl-token create-account <mint> --owner <wallet address> --fee-payer ~/.config/solana/id.json --url localhost
+//   spl-token mint <mint> 1000 --recipient-owner <wallet address> --url localhost
+// and start the app with VITE_SOLANA_RPC_URL=http://127.0.0.1:8899 VITE_GODD_MINT=<mint>.
+
+import axios from 'axios';
+import { abortableDelay, createAbortError } from './requestCoalescing';
+
+// The Gods Dollar (GODD) SPL token mint
+export const GODD_MINT = import.meta.env.VITE_GODD_MINT || 'HwQPzaohHzmx8X3nL3nSCfwVGLwQcsMEritEoqTBpump';
+
+// SPL token programs; a mint belongs to one or the other
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+export const LAMPORTS_PER_SOL = 1_000_000_000;
+
+// Owner of ordinary wallet accounts
+export const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+
+export type Commitment = 'processed' | 'confirmed' | 'finalized';
+
+export interface SolanaRpcConfig {
+  endpoint: string;
+  commitment: Commitment; // Used by calls that don't choose their own
+  timeoutMs: number;
+  maxRetries: number; // Retries after a network error, 429 or 5xx before the call fails
+  baseBackoffMs: number; // First backoff when the server gives no Retry-After
+  maxBackoffMs: number;
+  batchWindowMs: number; // Calls made within this window share one HTTP request
+  maxBatchSize: number; // 1 sends every call on its own, for providers that reject batches
+}
+
+let config: SolanaRpcConfig = {
+  endpoint: import.meta.env.VITE_SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
+  commitment: 'confirmed',
+  timeoutMs: 10000,
+  maxRetries: 3,
+  baseBackoffMs: 500,
+  maxBackoffMs: 8000,
+  batchWindowMs: 10,
+  maxBatchSize: 20,
+};
+
+// Change the endpoint, retry policy or batching, e.g. to switch to a local validator at runtime
+export const configureSolanaRpc = (overrides: Partial<SolanaRpcConfig>): void => {
+  config = { ...config, ...overrides };
+};
+
+export const getSolanaRpcConfig = (): Readonly<SolanaRpcConfig> => config;
+
+// Error object returned by the node for a failed call
+export class SolanaRpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+    this.name = 'SolanaRpcError';
+  }
+}
+
+// Result shapes
+
+export interface RpcContextResult<T> {
+  context: { slot: number };
+  value: T;
+}
+
+export interface TokenAmount {
+  amount: string; // Raw integer amount
+  decimals: number;
+  uiAmount: number | null;
+  uiAmountString: string;
+}
+
+export interface TokenLargestAccount extends TokenAmount {
+  address: string; // Token account, not its owner
+}
+
+// Raw account data as returned with base64 encoding
+export type Base64AccountData = [string, 'base64'];
+
+export interface ParsedAccountData<T = unknown> {
+  program: string;
+  parsed: { type: string; info: T };
+  space: number;
+}
+
+export interface AccountInfo<D> {
+  data: D;
+  executable: boolean;
+  lamports: number;
+  owner: string; // Program that owns the account
+  rentEpoch: number;
+  space?: number;
+}
+
+export interface TokenAccountInfo {
+  mint: string;
+  owner: string;
+  state: 'initialized' | 'frozen' | 'uninitialized';
+  isNative: boolean;
+  tokenAmount: TokenAmount;
+}
+
+export interface TokenAccount {
+  pubkey: string;
+  account: AccountInfo<ParsedAccountData<TokenAccountInfo>>;
+}
+
+export interface SignatureInfo {
+  signature: string;
+  slot: number;
+  err: unknown | null;
+  memo: string | null;
+  blockTime: number | null; // Unix seconds, null for very old transactions
+  confirmationStatus?: Commitment | null;
+}
+
+interface CommitmentOptions {
+  commitment?: Commitment;
+}
+
+export interface AccountInfoOptions extends CommitmentOptions {
+  dataSlice?: { offset: number; length: number };
+}
+
+export interface SignaturesOptions extends CommitmentOptions {
+  limit?: number; // 1-1000
+  before?: string; // Start searching backwards from this signature
+  until?: string;
+}
+
+export type ProgramAccountsFilter =
+  | { dataSize: number }
+  | { memcmp: { offset: number; bytes: string } }; // Base58 bytes
+
+export interface ProgramAccountsOptions extends AccountInfoOptions {
+  filters?: ProgramAccountsFilter[];
+}
+
+export interface ProgramAccount {
+  pubkey: string;
+  account: AccountInfo<Base64AccountData>;
+}
+
+// Transport
+
+interface RpcRequest {
+  jsonrpc: '2.0';
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+interface RpcResponse<T> {
+  id: number | null;
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+interface PendingCall {
+  request: RpcRequest;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+let nextId = 1;
+let queue: PendingCall[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Network failures, rate limits and server errors are worth another try; everything else is final
+const isRetryable = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error) || error.code === 'ERR_CANCELED') return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+};
+
+const retryDelayMs = (error: unknown, attempt: number): number => {
+  const retryAfter = axios.isAxiosError(error) ? Number(error.response?.headers?.['retry-after']) : NaN;
+  if (Number.isFinite(retryAfter) && retryAfter >= 0) {
+    return Math.min(retryAfter * 1000, config.maxBackoffMs);
+  }
+  const backoff = Math.min(config.baseBackoffMs * 2 ** attempt, config.maxBackoffMs);
+  return backoff / 2 + Math.random() * (backoff / 2);
+};
+
+// POST a single request or a batch, retrying transient failures
+const post = async <T>(body: RpcRequest | RpcRequest[], signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await axios.post<T>(config.endpoint, body, { timeout: config.timeoutMs, signal });
+      return response.data;
+    } catch (error) {
+      if (attempt >= config.maxRetries || !isRetryable(error)) throw error;
+      await abortableDelay(retryDelayMs(error, attempt), signal);
+    }
+  }
+};
+
+const release = (call: PendingCall) => {
+  if (call.onAbort) {
+    call.signal?.removeEventListener('abort', call.onAbort);
+  }
+};
+
+const settle = (call: PendingCall, response: RpcResponse<unknown> | undefined) => {
+  release(call);
+  if (!response) {
+    call.reject(new SolanaRpcError(-32603, `No response for ${call.request.method}`));
+  } else if (response.error) {
+    call.reject(new SolanaRpcError(response.error.code, response.error.message));
+  } else {
+    call.resolve(response.result);
+  }
+};
+
+// A lone call is sent as a plain request and can be cancelled. Calls in a batch share the HTTP request,
+// so an aborting caller is rejected straight away and its answer is dropped when the batch returns.
+const send = async (calls: PendingCall[]): Promise<void> => {
+  try {
+    if (calls.length === 1) {
+      settle(calls[0], await post<RpcResponse<unknown>>(calls[0].request, calls[0].signal));
+      return;
+    }
+
+    const responses = await post<RpcResponse<unknown>[] | RpcResponse<unknown>>(calls.map(call => call.request));
+    // Providers that refuse the whole batch answer with one error object
+    if (!Array.isArray(responses)) {
+      calls.forEach(call => settle(call, responses));
+      return;
+    }
+    const byId = new Map(responses.map(response => [response.id, response]));
+    calls.forEach(call => settle(call, byId.get(call.request.id)));
+  } catch (error) {
+    calls.forEach(call => {
+      release(call);
+      call.reject(error);
+    });
+  }
+};
+
+const flush = () => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  const calls = queue.filter(call => !call.signal?.aborted);
+  queue = [];
+
+  const batchSize = Math.max(1, config.maxBatchSize);
+  for (let i = 0; i < calls.length; i += batchSize) {
+    void send(calls.slice(i, i + batchSize));
+  }
+};
+
+// Queue a JSON-RPC call and return its result, throwing SolanaRpcError when the node reports one
+export const solanaRpc = <T>(method: string, params: unknown[], signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const call: PendingCall = {
+      request: { jsonrpc: '2.0', id: nextId++, method, params },
+      resolve: resolve as (result: unknown) => void,
+      reject,
+      signal,
+    };
+    if (signal) {
+      call.onAbort = () => reject(createAbortError());
+      signal.addEventListener('abort', call.onAbort, { once: true });
+    }
+
+    queue.push(call);
+    if (queue.length >= config.maxBatchSize) {
+      flush();
+    } else if (!flushTimer) {
+      flushTimer = setTimeout(flush, config.batchWindowMs);
+    }
+  });
+};
+
+// Methods
+
+const withCommitment = <O extends CommitmentOptions>(options: O): O & CommitmentOptions => ({
+  commitment: config.commitment,
+  ...options,
+});
+
+// Lamports held by the address
+export const getBalance = async (
+  address: string,
+  options: CommitmentOptions = {},
+  signal?: AbortSignal
+): Promise<number> => {
+  const { value } = await solanaRpc<RpcContextResult<number>>('getBalance', [address, withCommitment(options)], signal);
+  return value;
+};
+
+// Total supply of a mint
+export const getTokenSupply = async (
+  mint: string,
+  options: CommitmentOptions = {},
+  signal?: AbortSignal
+): Promise<TokenAmount> => {
+  const { value } = await solanaRpc<RpcContextResult<TokenAmount>>('getTokenSupply', [mint, withCommitment(options)], signal);
+  return value;
+};
+
+// The 20 largest token accounts of a mint, biggest first
+export const getTokenLargestAccounts = async (
+  mint: string,
+  options: CommitmentOptions = {},
+  signal?: AbortSignal
+): Promise<TokenLargestAccount[]> => {
+  const { value } = await solanaRpc<RpcContextResult<TokenLargestAccount[]>>(
+    'getTokenLargestAccounts',
+    [mint, withCommitment(options)],
+    signal
+  );
+  return value;
+};
+
+// Token accounts owned by an address, limited to one mint or one token program
+export const getTokenAccountsByOwner = async (
+  owner: string,
+  filter: { mint: string } | { programId: string },
+  options: CommitmentOptions = {},
+  signal?: AbortSignal
+): Promise<TokenAccount[]> => {
+  const { value } = await solanaRpc<RpcContextResult<TokenAccount[]>>(
+    'getTokenAccountsByOwner',
+    [owner, filter, { ...withCommitment(options), encoding: 'jsonParsed' }],
+    signal
+  );
+  return value;
+};
+
+// Signatures of transactions touching the address, newest first
+export const getSignaturesForAddress = (
+  address: string,
+  options: SignaturesOptions = {},
+  signal?: AbortSignal
+): Promise<SignatureInfo[]> => {
+  const commitment = options.commitment ?? config.commitment;
+  return solanaRpc<SignatureInfo[]>(
+    'getSignaturesForAddress',
+    // 'processed' isn't accepted here
+    [address, { ...options, commitment: commitment === 'processed' ? 'confirmed' : commitment }],
+    signal
+  );
+};
+
+// An account and its data, or null when it doesn't exist.
+// With jsonParsed, accounts of programs the node can't parse still come back as base64.
+export function getAccountInfo(
+  address: string,
+  options: AccountInfoOptions & { encoding: 'jsonParsed' },
+  signal?: AbortSignal
+): Promise<AccountInfo<ParsedAccountData | Base64AccountData> | null>;
+export function getAccountInfo(
+  address: string,
+  options?: AccountInfoOptions & { encoding?: 'base64' },
+  signal?: AbortSignal
+): Promise<AccountInfo<Base64AccountData> | null>;
+export async function getAccountInfo(
+  address: string,
+  options: AccountInfoOptions & { encoding?: 'base64' | 'jsonParsed' } = {},
+  signal?: AbortSignal
+): Promise<AccountInfo<ParsedAccountData | Base64AccountData> | null> {
+  const { value } = await solanaRpc<RpcContextResult<AccountInfo<ParsedAccountData | Base64AccountData> | null>>(
+    'getAccountInfo',
+    [address, { encoding: 'base64', ...withCommitment(options) }],
+    signal
+  );
+  return value;
+}
+
+// Accounts owned by a program that match every filter. Many public endpoints refuse this for large programs
+// such as the token program, so callers should expect it to fail.
+export const getProgramAccounts = (
+  programId: string,
+  options: ProgramAccountsOptions = {},
+  signal?: AbortSignal
+): Promise<ProgramAccount[]> =>
+  solanaRpc<ProgramAccount[]>('getProgramAccounts', [programId, { encoding: 'base64', ...withCommitment(options) }], signal);
+
+// Bytes of base64 account data
+export const decodeAccountData = ([data]: Base64AccountData): Uint8Array => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// True for parsed account data, false for the base64 fallback
+export const isParsedAccountData = (data: ParsedAccountData | Base64AccountData): data is ParsedAccountData =>
+  !Array.isArray(data);
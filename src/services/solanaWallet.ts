@@ -0,0 +1,128 @@
+// Solana wallet discovery and connection through the Wallet Standard
+// Wallets such as Phantom, Solflare and Backpack register themselves with the page using the
+// wallet-standard:register-wallet / wallet-standard:app-ready events, so no wallet-specific adapters are needed.
+// See https://github.com/wallet-standard/wallet-standard
+
+// localStorage key for the wallet to reconnect to on the next visit
+const LAST_WALLET_STORAGE_KEY = 'godsdollar.wallet';
+
+export interface WalletAccount {
+  address: string; // Base58 public key
+  publicKey: Uint8Array;
+  chains: readonly string[];
+  features: readonly string[];
+  label?: string;
+}
+
+interface ConnectFeature {
+  version: string;
+  connect(input?: { silent?: boolean }): Promise<{ accounts: readonly WalletAccount[] }>;
+}
+
+interface DisconnectFeature {
+  version: string;
+  disconnect(): Promise<void>;
+}
+
+interface EventsFeature {
+  version: string;
+  on(event: 'change', listener: (properties: { accounts?: readonly WalletAccount[] }) => void): () => void;
+}
+
+export interface StandardWallet {
+  name: string;
+  icon: string; // Data URI
+  version: string;
+  chains: readonly string[];
+  accounts: readonly WalletAccount[];
+  features: Record<string, unknown> & {
+    'standard:connect'?: ConnectFeature;
+    'standard:disconnect'?: DisconnectFeature;
+    'standard:events'?: EventsFeature;
+  };
+}
+
+interface WalletsApi {
+  register(...wallets: StandardWallet[]): () => void;
+}
+
+const registered: Set<StandardWallet> = new Set();
+const listeners: Set<(wallets: StandardWallet[]) => void> = new Set();
+
+const isSolanaWallet = (wallet: StandardWallet): boolean =>
+  wallet.chains.some(chain => chain.startsWith('solana:')) && !!wallet.features['standard:connect'];
+
+// Wallets that can connect to Solana, in the order they registered
+export const getSolanaWallets = (): StandardWallet[] => [...registered].filter(isSolanaWallet);
+
+// Called whenever a wallet registers or unregisters; returns an unsubscribe function
+export const subscribeToWallets = (listener: (wallets: StandardWallet[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const notify = () => {
+  const wallets = getSolanaWallets();
+  listeners.forEach(listener => listener(wallets));
+};
+
+const api: WalletsApi = {
+  register(...wallets) {
+    wallets.forEach(wallet => registered.add(wallet));
+    notify();
+    return () => {
+      wallets.forEach(wallet => registered.delete(wallet));
+      notify();
+    };
+  },
+};
+
+if (typeof window !== 'undefined') {
+  // Wallets that load after us announce themselves with this event...
+  window.addEventListener('wallet-standard:register-wallet', ((event: CustomEvent<(api: WalletsApi) => void>) => {
+    event.detail(api);
+  }) as EventListener);
+  // ...and wallets that loaded first are waiting for this one
+  window.dispatchEvent(new CustomEvent('wallet-standard:app-ready', { detail: api }));
+}
+
+const solanaAccount = (accounts: readonly WalletAccount[]): WalletAccount | null =>
+  accounts.find(account => account.chains.some(chain => chain.startsWith('solana:'))) ?? accounts[0] ?? null;
+
+// Ask the wallet for access to the user's account; rejects if the user declines.
+// A silent connect only succeeds when the user has already approved this site.
+export const connectWallet = async (wallet: StandardWallet, silent: boolean = false): Promise<WalletAccount | null> => {
+  const { accounts } = await wallet.features['standard:connect']!.connect({ silent });
+  const account = solanaAccount(accounts);
+  if (account) {
+    localStorage.setItem(LAST_WALLET_STORAGE_KEY, wallet.name);
+  }
+  return account;
+};
+
+export const disconnectWallet = async (wallet: StandardWallet): Promise<void> => {
+  localStorage.removeItem(LAST_WALLET_STORAGE_KEY);
+  try {
+    await wallet.features['standard:disconnect']?.disconnect();
+  } catch (error) {
+    console.warn(`Could not disconnect ${wallet.name}`, error);
+  }
+};
+
+// Follow account switches made in the wallet itself; the callback gets null when access is revoked
+export const onAccountChange = (
+  wallet: StandardWallet,
+  listener: (account: WalletAccount | null) => void
+): (() => void) => {
+  const events = wallet.features['standard:events'];
+  if (!events) return () => undefined;
+
+  return events.on('change', properties => {
+    if (properties.accounts) {
+      listener(solanaAccount(properties.accounts));
+    }
+  });
+};
+
+// Name of the wallet connected on the last visit, if it wasn't disconnected
+export const getLastWalletName = (): string | null => localStorage.getItem(LAST_WALLET_STORAGE_KEY);
@@ -0,0 +1,154 @@
+// Metaplex token metadata
+// Most SPL mints keep their name, symbol and a URI in a Metaplex metadata account, a PDA of the mint.
+// The URI points at an off-chain JSON document with the logo and description.
+// See https://developers.metaplex.com/token-metadata
+
+import axios from 'axios';
+import { decodeBase58, encodeBase58 } from './base58';
+import { findProgramAddress } from './programAddress';
+import { isAbortError } from './requestCoalescing';
+import { decodeAccountData, getAccountInfo } from './solanaRpc';
+
+export const METADATA_PROGRAM_ID = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s';
+
+// First byte of a metadata account (the MetadataV1 variant of the program's Key enum)
+const METADATA_V1_KEY = 4;
+
+// Gateways used for ipfs:// and ar:// URIs, which browsers can't load directly
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+const ARWEAVE_GATEWAY = 'https://arweave.net/';
+
+export interface MetadataAccount {
+  updateAuthority: string;
+  mint: string;
+  name: string;
+  symbol: string;
+  uri: string;
+}
+
+// The parts of the off-chain JSON we use
+export interface OffChainMetadata {
+  name?: string;
+  symbol?: string;
+  description?: string;
+  image?: string;
+}
+
+export interface TokenMetadata {
+  mint: string;
+  name: string;
+  symbol: string;
+  uri: string;
+  image: string | null; // Logo URL, ready to load in the browser
+  description: string | null;
+}
+
+// Mints without metadata, and lookups that failed, are asked again after this long
+const MISSING_METADATA_TTL_MS = 30 * 60 * 1000;
+
+// Resolutions by mint. Found metadata is kept for the session; misses expire after MISSING_METADATA_TTL_MS.
+const resolved: Map<string, { pending: Promise<TokenMetadata | null>; expiresAt: number }> = new Map();
+
+// Read a Borsh string (u32 length, then UTF-8); Metaplex pads names and symbols with NUL bytes
+const readString = (data: Uint8Array, offset: number): [string, number] => {
+  const length = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(offset, true);
+  const start = offset + 4;
+  const value = new TextDecoder().decode(data.slice(start, start + length)).replace(/\0/g, '').trim();
+  return [value, start + length];
+};
+
+// Decode the start of a metadata account; null when the bytes aren't one.
+// Layout: key (1), update authority (32), mint (32), name, symbol, uri, then fields we don't need.
+export const decodeMetadataAccount = (data: Uint8Array): MetadataAccount | null => {
+  if (data.length < 65 + 12 || data[0] !== METADATA_V1_KEY) return null;
+
+  try {
+    const [name, afterName] = readString(data, 65);
+    const [symbol, afterSymbol] = readString(data, afterName);
+    const [uri] = readString(data, afterSymbol);
+    return {
+      updateAuthority: encodeBase58(data.slice(1, 33)),
+      mint: encodeBase58(data.slice(33, 65)),
+      name,
+      symbol,
+      uri,
+    };
+  } catch {
+    // A length running past the end of the data
+    return null;
+  }
+};
+
+// Address of a mint's metadata account, the PDA of ["metadata", program ID, mint]
+export const findMetadataAddress = async (mint: string): Promise<string> => {
+  const mintBytes = decodeBase58(mint);
+  if (!mintBytes || mintBytes.length !== 32) {
+    throw new Error(`Invalid mint address ${mint}`);
+  }
+  const { address } = await findProgramAddress(
+    [new TextEncoder().encode('metadata'), decodeBase58(METADATA_PROGRAM_ID)!, mintBytes],
+    METADATA_PROGRAM_ID
+  );
+  return address;
+};
+
+// Turn ipfs:// and ar:// URIs into gateway URLs; http(s) URLs pass through
+export const toGatewayUrl = (uri: string): string => {
+  if (uri.startsWith('ipfs://')) return IPFS_GATEWAY + uri.slice('ipfs://'.length).replace(/^ipfs\//, '');
+  if (uri.startsWith('ar://')) return ARWEAVE_GATEWAY + uri.slice('ar://'.length);
+  return uri;
+};
+
+// Fetch the JSON a metadata URI points at; null when there is none or it can't be read
+export const fetchOffChainMetadata = async (uri: string, signal?: AbortSignal): Promise<OffChainMetadata | null> => {
+  if (!uri) return null;
+
+  try {
+    const response = await axios.get<OffChainMetadata>(toGatewayUrl(uri), { timeout: 10000, signal });
+    return response.data && typeof response.data === 'object' ? response.data : null;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn(`Could not load token metadata from ${uri}`, error);
+    return null;
+  }
+};
+
+// Read a mint's metadata account and its off-chain JSON; null when the mint has no Metaplex metadata
+export const fetchTokenMetadata = async (mint: string, signal?: AbortSignal): Promise<TokenMetadata | null> => {
+  const account = await getAccountInfo(await findMetadataAddress(mint), {}, signal);
+  if (!account || account.owner !== METADATA_PROGRAM_ID) return null;
+
+  const metadata = decodeMetadataAccount(decodeAccountData(account.data));
+  if (!metadata) return null;
+
+  const offChain = await fetchOffChainMetadata(metadata.uri, signal);
+  return {
+    mint,
+    name: metadata.name || offChain?.name || '',
+    symbol: metadata.symbol || offChain?.symbol || '',
+    uri: metadata.uri,
+    image: offChain?.image ? toGatewayUrl(offChain.image) : null,
+    description: offChain?.description || null,
+  };
+};
+
+// Metadata for a mint, looked up once per session. Misses and failures are remembered for a while
+// so repeated calls don't redo the address derivation and RPC request.
+export const resolveTokenMetadata = (mint: string): Promise<TokenMetadata | null> => {
+  const existing = resolved.get(mint);
+  if (existing && Date.now() < existing.expiresAt) {
+    return existing.pending;
+  }
+
+  const entry = { pending: fetchTokenMetadata(mint), expiresAt: Infinity };
+  resolved.set(mint, entry);
+  entry.pending.then(
+    metadata => {
+      if (!metadata) entry.expiresAt = Date.now() + MISSING_METADATA_TTL_MS;
+    },
+    () => {
+      entry.expiresAt = Date.now() + MISSING_METADATA_TTL_MS;
+    }
+  );
+  return entry.pending;
+};
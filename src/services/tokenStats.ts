@@ -0,0 +1,156 @@
+// Supply, authorities and holder distribution of an SPL token, read over JSON-RPC
+
+import { PUMP_FUN_PROGRAM_ID } from './pumpFun';
+import { isAbortError } from './requestCoalescing';
+import {
+  GODD_MINT,
+  SYSTEM_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  decodeAccountData,
+  getAccountInfo,
+  getProgramAccounts,
+  getTokenLargestAccounts,
+  isParsedAccountData,
+  type ParsedAccountData,
+  type ProgramAccountsFilter,
+  type TokenAccountInfo,
+  type TokenLargestAccount,
+} from './solanaRpc';
+
+// What kind of account holds a token balance
+export type HolderKind = 'wallet' | 'bondingCurve' | 'program';
+
+export interface TokenHolder {
+  tokenAccount: string;
+  owner: string | null; // Null if the token account couldn't be read
+  kind: HolderKind;
+  amount: number; // In whole tokens
+  share: number; // Percent of total supply
+}
+
+export interface TokenStats {
+  mint: string;
+  tokenProgram: string; // Classic SPL token or Token-2022
+  decimals: number;
+  totalSupply: number; // In whole tokens
+  circulatingSupply: number; // Total supply less the unsold tokens still in the pump.fun bonding curve
+  mintAuthority: string | null; // Null once renounced, so no more tokens can be minted
+  freezeAuthority: string | null; // Null once renounced, so holders' accounts can't be frozen
+  topHolders: TokenHolder[]; // Largest token accounts, biggest first (at most 20)
+  topWalletsShare: number; // Percent of circulating supply held by the TOP_WALLETS largest wallets
+  holderCount: number | null; // Accounts with a non-zero balance; null when the endpoint won't list them
+}
+
+// Number of wallets counted for the concentration figure
+export const TOP_WALLETS = 10;
+
+// Classic token accounts are always this size; Token-2022 accounts grow with their extensions
+const TOKEN_ACCOUNT_SIZE = 165;
+
+// Token account layout starts with the mint (32 bytes) and owner (32 bytes), then the u64 amount
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+interface MintInfo {
+  decimals: number;
+  supply: string;
+  mintAuthority?: string | null;
+  freezeAuthority?: string | null;
+}
+
+const classifyOwner = (ownerProgram: string | undefined): HolderKind => {
+  // An owner with no account at all is a wallet that holds no SOL
+  if (!ownerProgram || ownerProgram === SYSTEM_PROGRAM_ID) return 'wallet';
+  return ownerProgram === PUMP_FUN_PROGRAM_ID ? 'bondingCurve' : 'program';
+};
+
+// Resolve who owns each of the largest token accounts, and which program owns that owner.
+// All the lookups are made at once so the RPC client sends them as two batches.
+const fetchTopHolders = async (
+  largest: TokenLargestAccount[],
+  totalSupply: number,
+  signal?: AbortSignal
+): Promise<TokenHolder[]> => {
+  const tokenAccounts = await Promise.all(
+    largest.map(({ address }) => getAccountInfo(address, { encoding: 'jsonParsed' }, signal))
+  );
+  const owners = tokenAccounts.map(account =>
+    account && isParsedAccountData(account.data)
+      ? (account.data as ParsedAccountData<TokenAccountInfo>).parsed.info.owner
+      : null
+  );
+  // Only the owning program is needed, so skip the account data
+  const ownerAccounts = await Promise.all(
+    owners.map(owner => (owner ? getAccountInfo(owner, { dataSlice: { offset: 0, length: 0 } }, signal) : null))
+  );
+
+  return largest.map((account, i) => {
+    const amount = Number(account.uiAmountString);
+    return {
+      tokenAccount: account.address,
+      owner: owners[i],
+      kind: classifyOwner(ownerAccounts[i]?.owner),
+      amount,
+      share: totalSupply > 0 ? (amount / totalSupply) * 100 : 0,
+    };
+  });
+};
+
+// Count token accounts of the mint holding a non-zero balance, reading only their amounts
+const fetchHolderCount = async (mint: string, tokenProgram: string, signal?: AbortSignal): Promise<number | null> => {
+  const filters: ProgramAccountsFilter[] = [{ memcmp: { offset: 0, bytes: mint } }];
+  if (tokenProgram === TOKEN_PROGRAM_ID) {
+    filters.push({ dataSize: TOKEN_ACCOUNT_SIZE });
+  }
+
+  try {
+    const accounts = await getProgramAccounts(
+      tokenProgram,
+      { filters, dataSlice: { offset: TOKEN_ACCOUNT_AMOUNT_OFFSET, length: 8 } },
+      signal
+    );
+    return accounts.filter(({ account }) => decodeAccountData(account.data).some(byte => byte !== 0)).length;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn(`Holder count unavailable for ${mint}`, error);
+    return null;
+  }
+};
+
+// Read the token's stats; null when the mint doesn't exist on the configured cluster
+export const fetchTokenStats = async (mint: string = GODD_MINT, signal?: AbortSignal): Promise<TokenStats | null> => {
+  const mintAccount = await getAccountInfo(mint, { encoding: 'jsonParsed' }, signal);
+  if (!mintAccount || !isParsedAccountData(mintAccount.data) || mintAccount.data.parsed.type !== 'mint') {
+    return null;
+  }
+
+  const { info } = (mintAccount.data as ParsedAccountData<MintInfo>).parsed;
+  const totalSupply = Number(BigInt(info.supply)) / 10 ** info.decimals;
+
+  const [largest, holderCount] = await Promise.all([
+    getTokenLargestAccounts(mint, {}, signal),
+    fetchHolderCount(mint, mintAccount.owner, signal),
+  ]);
+  const topHolders = await fetchTopHolders(largest, totalSupply, signal);
+
+  const unsold = topHolders
+    .filter(holder => holder.kind === 'bondingCurve')
+    .reduce((total, holder) => total + holder.amount, 0);
+  const circulatingSupply = totalSupply - unsold;
+  const topWallets = topHolders
+    .filter(holder => holder.kind === 'wallet')
+    .slice(0, TOP_WALLETS)
+    .reduce((total, holder) => total + holder.amount, 0);
+
+  return {
+    mint,
+    tokenProgram: mintAccount.owner,
+    decimals: info.decimals,
+    totalSupply,
+    circulatingSupply,
+    mintAuthority: info.mintAuthority ?? null,
+    freezeAuthority: info.freezeAuthority ?? null,
+    topHolders,
+    topWalletsShare: circulatingSupply > 0 ? (topWallets / circulatingSupply) * 100 : 0,
+    holderCount,
+  };
+};
@@ -0,0 +1,119 @@
+// Shared market data types used by every provider and by cryptoService
+
+// Define interfaces for cryptocurrency data
+export interface CoinData {
+  id: string;
+  symbol: string;
+  name: string;
+  image: string;
+  current_price: number;
+  price_change_percentage_24h: number;
+  market_cap: number;
+  market_cap_rank: number;
+  total_volume: number;
+  high_24h?: number;
+  low_24h?: number;
+}
+
+// Project, explorer and community links for a coin
+export interface CoinLinks {
+  homepage: string[];
+  blockchain_site: string[];
+  repos: string[]; // Source code repositories
+  chat: string[]; // Discord, Telegram and similar community chats
+  twitter: string | null;
+  reddit: string | null;
+  telegram: string | null;
+}
+
+// A chain the coin is deployed on, with its token contract there
+export interface CoinPlatform {
+  platform: string; // CoinGecko asset platform ID, e.g. 'ethereum' or 'solana'
+  contract_address: string;
+  decimals: number | null;
+}
+
+// Full coin profile from the detail endpoint, on top of the market quote
+export interface CoinDetail extends CoinData {
+  description: string; // Plain text, with any HTML from the API stripped
+  links: CoinLinks;
+  categories: string[];
+  platforms: CoinPlatform[];
+  circulating_supply: number | null;
+  total_supply: number | null;
+  max_supply: number | null; // null when the supply is uncapped
+  fully_diluted_valuation: number | null;
+  price_change_percentage_7d: number | null;
+  price_change_percentage_30d: number | null;
+  price_change_percentage_1y: number | null;
+  ath: number | null;
+  ath_date: string | null; // ISO timestamp
+  atl: number | null;
+  atl_date: string | null;
+}
+
+export interface TrendingCoin {
+  item: {
+    id: string;
+    name: string;
+    symbol: string;
+    thumb: string;
+    small: string;
+    price_btc: number;
+    score: number;
+  };
+}
+
+// Interface for search result item
+export interface SearchResultItem {
+  id: string;
+  name: string;
+  symbol: string;
+  thumb?: string;
+  small?: string;
+  market_cap_rank?: number;
+  contract?: SearchResultContract; // Set when the search was a token address
+}
+
+// Token address a search result was resolved from
+export interface SearchResultContract {
+  platform: string; // CoinGecko asset platform ID
+  address: string;
+  listed: boolean; // False when only on-chain data was found; id is then the address
+}
+
+// Entry of CoinGecko's full coin list, which carries no market data
+export interface CoinListEntry {
+  id: string;
+  symbol: string;
+  name: string;
+}
+
+// Define interface for currency options
+export interface CurrencyOption {
+  symbol: string;
+  name: string;
+  decimals: number; // Fraction digits normally shown for this currency
+  type: 'fiat' | 'crypto';
+}
+
+// Number of days of history to request, or 'max' for the full history
+export type MarketChartDays = number | 'max';
+
+// Single point of a historical market chart
+export interface MarketChartPoint {
+  timestamp: number;
+  price: number;
+  market_cap: number;
+  total_volume: number;
+}
+
+// Single OHLC candle, with the market volume sampled at the candle's close
+export interface OhlcCandle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}